@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { deadline, delay, every, ticks, wait } from "./async"
+import { AbortError, TimeoutError } from "./errors"
+
+
+describe("async", () => {
+  // Whether an error is an AbortError caused by the given reason
+  const abortedBy = (cause: unknown) => (err: unknown) => err instanceof AbortError && err.cause === cause
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "performance"] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe("delay", () => {
+    it("should run the function after the delay", () => {
+      const fn = vi.fn()
+      delay(100, fn)
+
+      vi.advanceTimersByTime(99)
+      expect(fn).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(1)
+      expect(fn).toHaveBeenCalledOnce()
+    })
+
+    it("should cancel by calling the handle, cancel or dispose", () => {
+      const fn = vi.fn()
+      const a = delay(100, fn)
+      const b = delay(100, fn)
+
+      expect(a()).toBe(true)
+      expect(b.cancel()).toBe(true)
+
+      {
+        using _c = delay(100, fn)
+      }
+
+      vi.advanceTimersByTime(100)
+      expect(fn).not.toHaveBeenCalled()
+    })
+
+    it("should return false when cancelling after the function ran or was cancelled", () => {
+      const timer = delay(100, () => {})
+      vi.advanceTimersByTime(100)
+      expect(timer.cancel()).toBe(false)
+
+      const cancelled = delay(100, () => {})
+      cancelled.cancel()
+      expect(cancelled.cancel()).toBe(false)
+    })
+
+    it("should be cancelled by a signal", () => {
+      const fn = vi.fn()
+      const controller = new AbortController()
+      const timer = delay(100, fn, { signal: controller.signal })
+
+      controller.abort()
+      vi.advanceTimersByTime(100)
+
+      expect(fn).not.toHaveBeenCalled()
+      expect(timer.cancel()).toBe(false)
+    })
+
+    it("should not run with an aborted signal", () => {
+      const fn = vi.fn()
+      const timer = delay(100, fn, { signal: AbortSignal.abort() })
+
+      vi.advanceTimersByTime(100)
+      expect(fn).not.toHaveBeenCalled()
+      expect(timer()).toBe(false)
+    })
+
+    it("should remove its abort listener once run", () => {
+      const controller = new AbortController()
+      const remove = vi.spyOn(controller.signal, "removeEventListener")
+
+      delay(100, () => {}, { signal: controller })
+      vi.advanceTimersByTime(100)
+
+      expect(remove).toHaveBeenCalledWith("abort", expect.any(Function))
+    })
+  })
+
+  describe("every", () => {
+    it("should run the function at each interval with the tick number", () => {
+      const fn = vi.fn()
+      const timer = every(100, fn)
+
+      vi.advanceTimersByTime(350)
+      expect(fn.mock.calls).toEqual([[1], [2], [3]])
+      expect(timer.cancel()).toBe(true)
+
+      vi.advanceTimersByTime(500)
+      expect(fn).toHaveBeenCalledTimes(3)
+      expect(timer.cancel()).toBe(false)
+    })
+
+    it("should not drift when runs are slow", () => {
+      const times: number[] = []
+      const timer = every(100, tick => {
+        times.push(performance.now())
+        vi.advanceTimersByTime(30)
+        tick === 3 && timer.cancel()
+      })
+
+      vi.runAllTimers()
+      expect(times).toEqual([100, 200, 300])
+    })
+
+    it("should skip runs missed while busy", () => {
+      const ticks: number[] = []
+      const timer = every(100, tick => {
+        ticks.push(tick)
+        tick === 1 && vi.advanceTimersByTime(250)
+        tick === 5 && timer.cancel()
+      })
+
+      vi.runAllTimers()
+      expect(ticks).toEqual([1, 4, 5])
+    })
+
+    it("should stop when cancelled by the function", () => {
+      const fn = vi.fn(() => timer.cancel())
+      const timer = every(100, fn)
+
+      vi.advanceTimersByTime(500)
+      expect(fn).toHaveBeenCalledOnce()
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("should keep running when the function throws", () => {
+      const fn = vi.fn(() => {
+        throw new Error("oops")
+      })
+      const timer = every(100, fn)
+
+      expect(() => vi.advanceTimersByTime(100)).toThrow("oops")
+      expect(() => vi.advanceTimersByTime(100)).toThrow("oops")
+      expect(fn).toHaveBeenCalledTimes(2)
+      timer.cancel()
+    })
+
+    it("should stop when the signal aborts", () => {
+      const fn = vi.fn()
+      const controller = new AbortController()
+      every(100, fn, { signal: controller.signal })
+
+      vi.advanceTimersByTime(150)
+      controller.abort()
+      vi.advanceTimersByTime(500)
+
+      expect(fn).toHaveBeenCalledOnce()
+    })
+
+    it("should throw a RangeError for an invalid interval", () => {
+      for (const ms of [0, -100, Infinity, NaN]) {
+        expect(() => every(ms, () => {})).toThrow(RangeError)
+      }
+    })
+  })
+
+  describe("wait", () => {
+    it("should resolve after the delay", async () => {
+      const done = vi.fn()
+      wait(100).then(done)
+
+      await vi.advanceTimersByTimeAsync(99)
+      expect(done).not.toHaveBeenCalled()
+      await vi.advanceTimersByTimeAsync(1)
+      expect(done).toHaveBeenCalledOnce()
+    })
+
+    it("should reject with an AbortError when the signal aborts", async () => {
+      const controller = new AbortController()
+      const promise = wait(100, controller.signal)
+
+      controller.abort("stop")
+      await expect(promise).rejects.toSatisfy(abortedBy("stop"))
+    })
+
+    it("should still accept an AbortController", async () => {
+      const controller = new AbortController()
+      const promise = wait(100, controller)
+
+      controller.abort("stop")
+      await expect(promise).rejects.toSatisfy(abortedBy("stop"))
+    })
+
+    it("should reject at once with an aborted signal", async () => {
+      await expect(wait(100, AbortSignal.abort("gone"))).rejects.toSatisfy(abortedBy("gone"))
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("should remove its abort listener once resolved", async () => {
+      const controller = new AbortController()
+      const remove = vi.spyOn(controller.signal, "removeEventListener")
+      const promise = wait(100, controller.signal)
+
+      await vi.advanceTimersByTimeAsync(100)
+      await promise
+
+      expect(remove).toHaveBeenCalledWith("abort", expect.any(Function))
+    })
+  })
+
+  describe("deadline", () => {
+    it("should settle like the promise when it is in time", async () => {
+      await expect(deadline(Promise.resolve(1), 100)).resolves.toBe(1)
+      await expect(deadline(Promise.reject(new Error("no")), 100)).rejects.toThrow("no")
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("should reject with a TimeoutError when the promise is late", async () => {
+      const promise = deadline(new Promise(() => {}), 100)
+      const assertion = expect(promise).rejects.toSatisfy(err => err instanceof TimeoutError && err.ms === 100)
+
+      await vi.advanceTimersByTimeAsync(100)
+      await assertion
+    })
+
+    it("should name the error", () => {
+      const err = new TimeoutError(50)
+
+      expect(err).toBeInstanceOf(Error)
+      expect(err.name).toBe("TimeoutError")
+      expect(err.message).toBe("Timed out after 50ms")
+    })
+  })
+
+  describe("ticks", () => {
+    it("should yield tick numbers at each interval", async () => {
+      const seen: Array<[number, number]> = []
+      const loop = (async () => {
+        for await (const tick of ticks(100)) {
+          seen.push([tick, performance.now()])
+
+          if (tick === 3) {
+            break
+          }
+        }
+      })()
+
+      await vi.advanceTimersByTimeAsync(300)
+      await loop
+
+      expect(seen).toEqual([[1, 100], [2, 200], [3, 300]])
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("should skip ticks missed while the loop body was busy", async () => {
+      const seen: number[] = []
+      const loop = (async () => {
+        for await (const tick of ticks(100)) {
+          seen.push(tick)
+          tick === 1 && vi.advanceTimersByTime(250)
+
+          if (seen.length === 3) {
+            break
+          }
+        }
+      })()
+
+      await vi.advanceTimersByTimeAsync(600)
+      await loop
+
+      expect(seen).toEqual([1, 4, 5])
+    })
+
+    it("should reject with an AbortError when the signal aborts", async () => {
+      const controller = new AbortController()
+      const iterator = ticks(100, { signal: controller.signal })
+
+      const first = iterator.next()
+      await vi.advanceTimersByTimeAsync(100)
+      expect(await first).toEqual({ value: 1, done: false })
+
+      const second = iterator.next()
+      controller.abort("stop")
+      await expect(second).rejects.toSatisfy(abortedBy("stop"))
+    })
+
+    it("should throw a RangeError for an invalid interval on the call", () => {
+      for (const ms of [0, -100, Infinity, NaN]) {
+        expect(() => ticks(ms)).toThrow(RangeError)
+      }
+    })
+  })
+})
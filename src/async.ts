@@ -1,24 +1,199 @@
-export function delay(ms: number, fn: () => void) {
-  let done = false
-  const tid = setTimeout(() => {
-    done = true
-    fn()
-  }, ms)
+import { TimeoutError, toAbortError } from "./errors"
 
-  return () => (clearTimeout(tid), !done)
+/**
+ * An AbortSignal, or an AbortController whose signal is used.
+ */
+export type AbortInput = AbortSignal | AbortController
+
+export interface TimerOptions {
+  /** Cancels the timer when aborted */
+  signal?: AbortInput
+}
+
+/**
+ * A handle to a scheduled timer. Calling it, `cancel()` or disposing it cancels the timer.
+ * Cancelling returns whether the timer was still pending or running.
+ */
+export interface Timer extends Disposable {
+  (): boolean
+  cancel(): boolean
+}
+
+/**
+ * Runs a function after a delay.
+ *
+ * @param ms - The delay in milliseconds
+ * @param fn - The function to run
+ * @param options - A signal that cancels the timer
+ * @returns A timer handle, whose cancel returns false if the function already ran or was cancelled
+ * @example
+ * const timer = delay(1000, () => console.log("later"))
+ * timer.cancel()
+ */
+export function delay(ms: number, fn: () => void, options: TimerOptions = {}) {
+  const signal = toSignal(options.signal)
+  let pending = !signal?.aborted
+  const tid = pending ? setTimeout(() => (stop(), fn()), ms) : undefined
+
+  function stop() {
+    const wasPending = pending
+    pending = false
+    clearTimeout(tid)
+    signal?.removeEventListener("abort", stop)
+    return wasPending
+  }
+
+  pending && signal?.addEventListener("abort", stop, { once: true })
+  return timer(stop)
+}
+
+/**
+ * Runs a function repeatedly. Each run is scheduled from the start time rather than the previous run,
+ * so the interval doesn't drift, and runs missed while the thread was busy are skipped.
+ *
+ * @param ms - The interval in milliseconds
+ * @param fn - The function to run, with the tick number from 1, which jumps over skipped runs
+ * @param options - A signal that stops the interval
+ * @returns A timer handle, whose cancel returns false if the interval was already stopped
+ * @throws {RangeError} If the interval is not a positive finite number
+ * @example
+ * const timer = every(1000, tick => console.log(tick), { signal })
+ */
+export function every(ms: number, fn: (tick: number) => void, options: TimerOptions = {}) {
+  checkInterval(ms)
+  const signal = toSignal(options.signal)
+  const start = performance.now()
+  let running = !signal?.aborted
+  let tick = 0
+  let tid: ReturnType<typeof setTimeout> | undefined
+
+  function schedule() {
+    tick = nextTick(start, ms, tick)
+    tid = setTimeout(() => {
+      try {
+        fn(tick)
+      } finally {
+        // Schedule after the run, so runs missed while it was busy are skipped
+        running && schedule()
+      }
+    }, start + tick * ms - performance.now())
+  }
+
+  function stop() {
+    const wasRunning = running
+    running = false
+    clearTimeout(tid)
+    signal?.removeEventListener("abort", stop)
+    return wasRunning
+  }
+
+  if (running) {
+    signal?.addEventListener("abort", stop, { once: true })
+    schedule()
+  }
+
+  return timer(stop)
 }
 
-export function wait(ms: number, abort?: AbortController) {
-  return new Promise((resolve, reject) => {
+/**
+ * Waits for a delay.
+ *
+ * @param ms - The delay in milliseconds
+ * @param signal - A signal, or a controller, that rejects the wait when aborted
+ * @returns A promise resolving after the delay
+ * @throws {AbortError} If the signal aborts, with its reason as the cause
+ * @throws {TimeoutError} If the signal is from `AbortSignal.timeout` and times out
+ * @example
+ * await wait(1000, AbortSignal.timeout(500)) // rejects with a TimeoutError after 500ms
+ */
+export function wait(ms: number, signal?: AbortInput) {
+  const abortSignal = toSignal(signal)
+
+  return new Promise<void>((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      return reject(toAbortError(abortSignal.reason))
+    }
+
+    const onAbort = () => {
+      clearTimeout(tid)
+      reject(toAbortError(abortSignal!.reason))
+    }
+
     const tid = setTimeout(() => {
-      resolve(undefined)
+      abortSignal?.removeEventListener("abort", onAbort)
+      resolve()
     }, ms)
 
-    abort?.signal.addEventListener("abort", (_ev) => {
-      clearTimeout(tid)
-      reject(abort.signal.reason)
-    }, {
-      once: true,
-    })
+    abortSignal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Rejects with a `TimeoutError` if a promise doesn't settle in time.
+ *
+ * @param promise - The promise
+ * @param ms - The timeout in milliseconds
+ * @returns A promise settling like the given one, or rejecting with a `TimeoutError`
+ * @throws {TimeoutError} If the promise doesn't settle in time
+ * @example
+ * const res = await deadline(fetch(url), 5000)
+ */
+export function deadline<T>(promise: PromiseLike<T>, ms: number) {
+  return new Promise<T>((resolve, reject) => {
+    const tid = setTimeout(() => reject(new TimeoutError(ms)), ms)
+
+    promise.then(
+      val => (clearTimeout(tid), resolve(val)),
+      err => (clearTimeout(tid), reject(err)),
+    )
+  })
+}
+
+/**
+ * Yields at a fixed interval, without drift. Ticks missed while the loop body was busy are skipped.
+ *
+ * @param ms - The interval in milliseconds
+ * @param options - A signal that rejects the iteration with an `AbortError` when aborted
+ * @returns An async generator of tick numbers from 1, which jump over skipped ticks
+ * @throws {RangeError} If the interval is not a positive finite number
+ * @example
+ * for await (const tick of ticks(1000, { signal })) {
+ *   console.log(tick)
+ * }
+ */
+export function ticks(ms: number, options: TimerOptions = {}): AsyncGenerator<number, void, undefined> {
+  // Checked here rather than in the generator, so it throws on the call and not on the first tick
+  checkInterval(ms)
+  return tickGenerator(ms, toSignal(options.signal))
+}
+
+async function* tickGenerator(ms: number, signal?: AbortSignal) {
+  const start = performance.now()
+
+  for (let tick = nextTick(start, ms, 0); ; tick = nextTick(start, ms, tick)) {
+    await wait(start + tick * ms - performance.now(), signal)
+    yield tick
+  }
+}
+
+function checkInterval(ms: number) {
+  if (!(ms > 0 && ms < Infinity)) {
+    throw new RangeError(`Invalid interval: ${ms}`)
+  }
+}
+
+function toSignal(input?: AbortInput) {
+  return input instanceof AbortController ? input.signal : input
+}
+
+// The next tick after the previous one that is still in the future
+function nextTick(start: number, ms: number, prev: number) {
+  return Math.max(prev + 1, Math.floor((performance.now() - start) / ms) + 1)
+}
+
+function timer(cancel: () => boolean): Timer {
+  return Object.assign(() => cancel(), {
+    cancel,
+    [Symbol.dispose]: () => void cancel(),
   })
 }
@@ -244,6 +244,161 @@ describe("blob", () => {
     })
   })
 
+  describe("compress/decompress", () => {
+    it("should round-trip a blob", async () => {
+      const testBlob = createBlob("Hello, World! ".repeat(50), "application/json")
+
+      const compressed = await blob.compress(testBlob)
+      expect(compressed.type).toBe("application/gzip")
+      expect(compressed.size).toBeLessThan(testBlob.size)
+
+      const decompressed = await blob.decompress(compressed, "gzip", "application/json")
+      await expectBlobsEqual(decompressed, testBlob)
+    })
+
+    it("should support deflate formats", async () => {
+      const testBlob = createBlob("abc".repeat(100))
+      const compressed = await blob.compress(testBlob, "deflate-raw")
+
+      expect(compressed.type).toBe("application/octet-stream")
+      expect(await blob.toText(await blob.decompress(compressed, "deflate-raw"))).toBe("abc".repeat(100))
+    })
+  })
+
+  describe("toCompressedBase64/fromCompressedBase64", () => {
+    it("should round-trip through URL-safe base64", async () => {
+      const json = JSON.stringify({ items: Array.from({ length: 50 }, (_, i) => i) })
+      const testBlob = createBlob(json, "application/json")
+
+      const encoded = await blob.toCompressedBase64(testBlob)
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+      expect(encoded.length).toBeLessThan(json.length)
+
+      const decoded = await blob.fromCompressedBase64(encoded, "deflate-raw", "application/json")
+      await expectBlobsEqual(decoded, testBlob)
+    })
+
+    it("should support standard base64 and other formats", async () => {
+      const testBlob = createBlob("Hello")
+
+      const encoded = await blob.toCompressedBase64(testBlob, "gzip", false)
+      const decoded = await blob.fromCompressedBase64(encoded, "gzip")
+
+      expect(await blob.toText(decoded)).toBe("Hello")
+    })
+  })
+
+  describe("chunks", () => {
+    it("should yield blob chunks with offsets", async () => {
+      const testBlob = createBlob("abcdefghij", "text/plain")
+      const chunks = []
+
+      for await (const chunk of blob.chunks(testBlob, 4)) {
+        chunks.push({ ...chunk, text: await blob.toText(chunk.data) })
+      }
+
+      expect(chunks.map(({ index, start, end, text }) => ({ index, start, end, text }))).toEqual([
+        { index: 0, start: 0, end: 4, text: "abcd" },
+        { index: 1, start: 4, end: 8, text: "efgh" },
+        { index: 2, start: 8, end: 10, text: "ij" },
+      ])
+      expect(chunks[0].data.type).toBe("text/plain")
+    })
+
+    it("should yield bytes when asked", async () => {
+      const chunks = []
+
+      for await (const chunk of blob.chunks(createBinaryBlob(new Uint8Array([1, 2, 3])), 2, true)) {
+        chunks.push(Array.from(chunk.data))
+      }
+
+      expect(chunks).toEqual([[1, 2], [3]])
+    })
+
+    it("should yield nothing for an empty blob and reject invalid sizes", async () => {
+      const chunks = []
+
+      for await (const chunk of blob.chunks(createBlob(""))) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks).toEqual([])
+      await expect(blob.chunks(createBlob("a"), 0).next()).rejects.toThrow(RangeError)
+    })
+  })
+
+  describe("readRange", () => {
+    it("should read a byte range", async () => {
+      const testBlob = createBinaryBlob(new Uint8Array([0, 1, 2, 3, 4]))
+
+      expect(Array.from(await blob.readRange(testBlob, 1, 3))).toEqual([1, 2])
+      expect(Array.from(await blob.readRange(testBlob, 3))).toEqual([3, 4])
+    })
+  })
+
+  describe("concat", () => {
+    it("should join blobs and keep the type", async () => {
+      const result = blob.concat(createBlob("ab", "text/csv"), createBlob("cd", ""))
+
+      expect(result.type).toBe("text/csv")
+      expect(await blob.toText(result)).toBe("abcd")
+      expect(blob.concat().size).toBe(0)
+    })
+  })
+
+  describe("sniffType", () => {
+    it("should detect the type from the leading bytes", async () => {
+      const png = createBinaryBlob(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]), "")
+
+      expect(await blob.sniffType(png)).toBe("image/png")
+      expect(await blob.sniffType(createBlob("{\"a\": 1}", ""))).toBe("application/json")
+      expect(await blob.sniffType(createBlob("hello"))).toBeUndefined()
+    })
+  })
+
+  describe("auto type", () => {
+    it("should sniff the type in fromBase64, fromHex and decode", () => {
+      expect(blob.fromBase64("/9j/4AAQ", "auto").type).toBe("image/jpeg")
+      expect(blob.fromHex("474946383961", "auto").type).toBe("image/gif")
+      expect(blob.decode("AAECAw==", "base64", "auto").type).toBe("application/octet-stream")
+    })
+
+    it("should prefer the sniffed type over the declared type in fromDataUrl", () => {
+      expect(blob.fromDataUrl("data:application/octet-stream;base64,JVBERi0xLjQ=", "auto").type).toBe("application/pdf")
+      expect(blob.fromDataUrl("data:text/csv,a,b", "auto").type).toBe("text/csv")
+    })
+
+    it("should sniff the type in fromText and fromCompressedBase64", async () => {
+      expect(blob.fromText("<svg></svg>", "auto").type).toBe("image/svg+xml")
+      expect(blob.fromText("hello", "auto").type).toBe("text/plain")
+
+      const encoded = await blob.toCompressedBase64(createBlob("[1, 2, 3]"))
+      expect((await blob.fromCompressedBase64(encoded, "deflate-raw", "auto")).type).toBe("application/json")
+    })
+  })
+
+  describe("digest", () => {
+    it("should hash the blob contents with SHA-256 by default", async () => {
+      const result = await blob.digest(createBlob("abc"))
+
+      expect(Array.from(result.subarray(0, 4))).toEqual([0xba, 0x78, 0x16, 0xbf])
+      expect(result.length).toBe(32)
+    })
+
+    it("should support other algorithms", async () => {
+      expect((await blob.digest(createBlob("abc"), "SHA-512")).length).toBe(64)
+    })
+  })
+
+  describe("checksum", () => {
+    it("should checksum the blob contents as a stream", async () => {
+      const testBlob = new Blob(["1234", "56789"])
+
+      expect(await blob.checksum(testBlob, "crc32")).toBe(0xcbf43926)
+      expect(await blob.checksum(createBlob(""), "adler32")).toBe(1)
+    })
+  })
+
   describe("toText", () => {
     it("should convert text blob to string", async () => {
       const testBlob = createBlob("Hello, World!")
@@ -323,20 +478,19 @@ describe("blob", () => {
       expect(result.type).toBe("application/custom")
     })
 
-    it("should handle data URL with no MIME type", () => {
+    it("should default to text/plain;charset=US-ASCII when the MIME type is missing", () => {
       const dataUrl = "data:;base64,dGVzdA=="
 
       const result = blob.fromDataUrl(dataUrl)
 
-      expect(result.type).toBe("")
+      expect(result.type).toBe("text/plain;charset=us-ascii")
+      expect(result.size).toBe(4)
     })
 
-    it("should default to application/octet-stream when type is missing and no forced type", () => {
-      const dataUrl = "data:;base64,dGVzdA=="
-
-      const result = blob.fromDataUrl(dataUrl, undefined)
+    it("should default the MIME type but keep a given charset", () => {
+      const result = blob.fromDataUrl("data:;charset=utf-8,hi", undefined)
 
-      expect(result.type).toBe("")
+      expect(result.type).toBe("text/plain;charset=utf-8")
     })
 
     it("should throw error for invalid data URL", () => {
@@ -345,9 +499,25 @@ describe("blob", () => {
       expect(() => blob.fromDataUrl("")).toThrow("Invalid data URL")
     })
 
-    it("should throw error for unsupported encoding", () => {
-      expect(() => blob.fromDataUrl("data:text/plain;charset=utf-8,Hello")).toThrow("Unsupported encoding: charset=utf-8")
-      expect(() => blob.fromDataUrl("data:text/plain;utf8,Hello")).toThrow("Unsupported encoding: utf8")
+    it("should decode percent-encoded payloads", async () => {
+      const result = blob.fromDataUrl("data:text/plain,hello%20world")
+
+      expect(result.type).toBe("text/plain")
+      expect(await blob.toText(result)).toBe("hello world")
+    })
+
+    it("should keep MIME parameters in the blob type", async () => {
+      const result = blob.fromDataUrl("data:text/plain;charset=utf-8;base64,Y2Fmw6k=")
+
+      expect(result.type).toBe("text/plain;charset=utf-8")
+      expect(await blob.toText(result)).toBe("café")
+    })
+
+    it("should ignore parameters without a value", async () => {
+      const result = blob.fromDataUrl("data:text/plain;utf8,Hello")
+
+      expect(result.type).toBe("text/plain")
+      expect(await blob.toText(result)).toBe("Hello")
     })
 
     it("should handle binary data from data URL", () => {
@@ -439,6 +609,11 @@ describe("blob", () => {
 
       expect(result.size).toBe(5)
     })
+
+    it("should skip whitespace like atob", async () => {
+      expect(new Uint8Array(await blob.fromBase64("AQID\n").arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]))
+      expect(new Uint8Array(await blob.fromBase64("AQ ID").arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]))
+    })
   })
 
   describe("fromHex", () => {
@@ -1,4 +1,24 @@
-import { base64 as base64x, hex as hexx, utf8 as utf8x } from "./transcoders"
+import { decode, encode, type CodecName } from "./codecs"
+import { compress, decompress, type CompressionFormat } from "./compression"
+import { formatContentType, parseDataUrl } from "./dataurl"
+import { checksumStream, digest, type ChecksumAlgorithm, type DigestAlgorithm } from "./hash"
+import { IMAGE_HEADER_LENGTH, imageSize, resizeImage, toImageBitmap, type ResizeImageOptions } from "./image"
+import { ObjectUrl } from "./objecturl"
+import { sniffType, SNIFF_LENGTH } from "./sniff"
+import { utf8 as utf8x } from "./transcoders"
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+
+export interface BlobChunk<T extends Blob | Uint8Array = Blob> {
+  /** The position of the chunk, from 0 */
+  index: number
+  /** The offset of the first byte of the chunk */
+  start: number
+  /** The offset after the last byte of the chunk */
+  end: number
+  /** The chunk contents, as a Blob slice or its bytes */
+  data: T
+}
 
 
 export const blob = {
@@ -7,11 +27,41 @@ export const blob = {
   },
 
   async toBase64(blob: Blob, urlSafe=false) {
-    return base64x.encode(await blob.arrayBuffer(), urlSafe)
+    return this.encode(blob, urlSafe ? "base64url" : "base64")
   },
 
   async toHex(blob: Blob) {
-    return hexx.encode(await blob.arrayBuffer())
+    return this.encode(blob, "hex")
+  },
+
+  async encode(blob: Blob, codec: CodecName) {
+    return encode(await blob.arrayBuffer(), codec)
+  },
+
+  async compress(blob: Blob, format: CompressionFormat = "gzip", type = format === "gzip" ? "application/gzip" : "application/octet-stream") {
+    return new Blob([await compress(blob, format)], { type })
+  },
+
+  async decompress(blob: Blob, format: CompressionFormat = "gzip", type = "application/octet-stream") {
+    return new Blob([await decompress(blob, format)], { type })
+  },
+
+  async toCompressedBase64(blob: Blob, format: CompressionFormat = "deflate-raw", urlSafe = true) {
+    return encode(await compress(blob, format), urlSafe ? "base64url" : "base64")
+  },
+
+  async fromCompressedBase64(base64: string, format: CompressionFormat = "deflate-raw", type = "application/octet-stream") {
+    const bytes = await decompress(decode(base64, "base64"), format)
+    return new Blob([bytes], { type: resolveType(bytes, type, "application/octet-stream") })
+  },
+
+  async digest(blob: Blob, algorithm: DigestAlgorithm = "SHA-256") {
+    // WebCrypto can't hash incrementally, so the whole blob is read
+    return digest(await blob.arrayBuffer(), algorithm)
+  },
+
+  checksum(blob: Blob, algorithm: ChecksumAlgorithm) {
+    return checksumStream(blob.stream(), algorithm)
   },
 
   async toText(blob: Blob) {
@@ -19,29 +69,82 @@ export const blob = {
   },
 
   fromDataUrl(dataUrl: string, forcedType?: string) {
-    if (!dataUrl.startsWith("data:")) {
-      throw new Error("Invalid data URL")
+    const { mimeType, params, bytes } = parseDataUrl(dataUrl)
+    return new Blob([bytes], { type: resolveType(bytes, forcedType, formatContentType(mimeType, params)) })
+  },
+
+  fromBase64(base64: string, type = "application/octet-stream") {
+    return this.decode(base64, "base64", type)
+  },
+
+  fromHex(hex: string, type = "application/octet-stream") {
+    return this.decode(hex, "hex", type)
+  },
+
+  decode(text: string, codec: CodecName, type = "application/octet-stream") {
+    const bytes = decode(text, codec)
+    return new Blob([bytes], { type: resolveType(bytes, type, "application/octet-stream") })
+  },
+
+  fromText(text: string, type = "text/plain") {
+    const bytes = utf8x.encode(text)
+    return new Blob([bytes], { type: resolveType(bytes, type, "text/plain") })
+  },
+
+  async *chunks<B extends boolean = false>(blob: Blob, size = DEFAULT_CHUNK_SIZE, asBytes?: B): AsyncGenerator<BlobChunk<B extends true ? Uint8Array : Blob>> {
+    if (!(Number.isInteger(size) && size > 0)) {
+      throw new RangeError(`Invalid chunk size: ${size}`)
+    }
+
+    for (let index = 0, start = 0; start < blob.size; index++, start += size) {
+      const end = Math.min(start + size, blob.size)
+      const part = blob.slice(start, end, blob.type)
+      const data = asBytes ? new Uint8Array(await part.arrayBuffer()) : part
+      yield { index, start, end, data: data as B extends true ? Uint8Array : Blob }
     }
+  },
 
-    const [prefix, payload] = dataUrl.slice(5).split(",", 2)
-    const [type, encoding] = prefix.split(";", 2)
+  async readRange(blob: Blob, start: number, end = blob.size) {
+    return new Uint8Array(await blob.slice(start, end).arrayBuffer())
+  },
 
-    if (encoding !== "base64") {
-      throw new Error(`Unsupported encoding: ${encoding}`)
+  concat(...parts: Blob[]) {
+    return new Blob(parts, { type: parts.find(part => part.type)?.type ?? "" })
+  },
+
+  async imageSize(blob: Blob) {
+    const size = imageSize(await blob.slice(0, IMAGE_HEADER_LENGTH).arrayBuffer())
+
+    // A JPEG's frame header can come after large metadata segments
+    if (!size && blob.size > IMAGE_HEADER_LENGTH && await this.sniffType(blob) === "image/jpeg") {
+      return imageSize(await blob.arrayBuffer())
     }
 
-    return this.fromBase64(payload, forcedType ?? type ?? "application/octet-stream")
+    return size
   },
 
-  fromBase64(base64: string, type = "application/octet-stream") {
-    return new Blob([base64x.decode(base64)], { type })
+  toImageBitmap(blob: Blob, options?: ImageBitmapOptions) {
+    return toImageBitmap(blob, options)
   },
 
-  fromHex(hex: string, type = "application/octet-stream") {
-    return new Blob([hexx.decode(hex)], { type })
+  resizeImage(blob: Blob, options?: ResizeImageOptions) {
+    return resizeImage(blob, options)
   },
 
-  fromText(text: string, type = "text/plain") {
-    return new Blob([utf8x.encode(text)], { type })
+  async thumbnailDataUrl(blob: Blob, size = 128, options: Omit<ResizeImageOptions, "maxWidth" | "maxHeight"> = {}) {
+    return this.toDataUrl(await resizeImage(blob, { fit: "cover", ...options, maxWidth: size, maxHeight: size }))
   },
+
+  objectUrl(blob: Blob) {
+    return ObjectUrl.create(blob)
+  },
+
+  async sniffType(blob: Blob) {
+    return sniffType(await blob.slice(0, SNIFF_LENGTH).arrayBuffer())
+  },
+}
+
+// A type of "auto" is sniffed from the bytes, falling back to the default
+function resolveType(bytes: Uint8Array, type: string | undefined, fallback: string) {
+  return type === "auto" ? sniffType(bytes) ?? fallback : type ?? fallback
 }
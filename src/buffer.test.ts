@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest"
-import { buffer, TypedArrays } from "./buffer"
+import { $buffer as buffer, makeUrlSafe, makeUrlUnsafe, TypedArrays } from "./buffer"
+import { PaddingError } from "./padding"
+import { DecodeError } from "./transcoders"
 
 
 describe("buffer", () => {
@@ -80,6 +82,147 @@ describe("buffer", () => {
       expect(result).toBeInstanceOf(Uint16Array)
       expect(Array.from(result)).toEqual([0x1234, 0x5678, 0x9abc])
     })
+
+    it("should copy only the window of subarray views", () => {
+      const backing = new Uint8Array([9, 1, 2, 9, 9, 3, 9])
+      const buf1 = backing.subarray(1, 3)
+      const buf2 = backing.subarray(5, 6)
+
+      const result = buffer.concat(buf1, buf2)!
+
+      expect(Array.from(result)).toEqual([1, 2, 3])
+    })
+
+    it("should copy only the window of wider typed array views", () => {
+      const backing = new Uint16Array([7, 0x1234, 0x5678, 7])
+
+      const result = buffer.concat(backing.subarray(1, 3), new Uint16Array([0x9abc]))!
+
+      expect(Array.from(result)).toEqual([0x1234, 0x5678, 0x9abc])
+    })
+  })
+
+  describe("equals", () => {
+    it("should compare bytes within view windows", () => {
+      const backing = new Uint8Array([0, 1, 2, 0])
+
+      expect(buffer.equals(backing.subarray(1, 3), new Uint8Array([1, 2]))).toBe(true)
+      expect(buffer.equals(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]))).toBe(true)
+      expect(buffer.equals(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false)
+      expect(buffer.equals(new Uint8Array([1, 2]), new Uint8Array([1]))).toBe(false)
+    })
+  })
+
+  describe("timingSafeEqual", () => {
+    it("should compare bytes", () => {
+      expect(buffer.timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true)
+      expect(buffer.timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false)
+      expect(buffer.timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2]))).toBe(false)
+      expect(buffer.timingSafeEqual(new Uint8Array(), new Uint8Array())).toBe(true)
+    })
+  })
+
+  describe("compare", () => {
+    it("should order buffers lexicographically", () => {
+      expect(buffer.compare(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(-1)
+      expect(buffer.compare(new Uint8Array([2]), new Uint8Array([1, 9]))).toBe(1)
+      expect(buffer.compare(new Uint8Array([1]), new Uint8Array([1, 0]))).toBe(-1)
+      expect(buffer.compare(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(0)
+    })
+
+    it("should work as a sort comparator", () => {
+      const sorted = [[3], [1, 2], [1], [2, 0]].map(a => new Uint8Array(a)).sort(buffer.compare)
+
+      expect(sorted.map(a => Array.from(a))).toEqual([[1], [1, 2], [2, 0], [3]])
+    })
+  })
+
+  describe("indexOf", () => {
+    const haystack = new Uint8Array([1, 2, 1, 2, 3, 4])
+
+    it("should find byte patterns", () => {
+      expect(buffer.indexOf(haystack, new Uint8Array([1, 2, 3]))).toBe(2)
+      expect(buffer.indexOf(haystack, new Uint8Array([2]), 2)).toBe(3)
+      expect(buffer.indexOf(haystack, 4)).toBe(5)
+      expect(buffer.indexOf(haystack, new Uint8Array([3, 4, 5]))).toBe(-1)
+      expect(buffer.indexOf(haystack, new Uint8Array([]), 2)).toBe(2)
+    })
+
+    it("should search within a view window", () => {
+      expect(buffer.indexOf(haystack.subarray(3), new Uint8Array([1, 2]))).toBe(-1)
+      expect(buffer.indexOf(haystack.subarray(1), 3)).toBe(3)
+    })
+
+    it("should back includes", () => {
+      expect(buffer.includes(haystack, new Uint8Array([2, 3]))).toBe(true)
+      expect(buffer.includes(haystack, new Uint8Array([3, 2]))).toBe(false)
+    })
+  })
+
+  describe("split", () => {
+    it("should split on a delimiter", () => {
+      const parts = buffer.split(new Uint8Array([1, 13, 10, 2, 3, 13, 10, 13, 10]), new Uint8Array([13, 10]))
+
+      expect(parts.map(p => Array.from(p))).toEqual([[1], [2, 3], [], []])
+    })
+
+    it("should split on a single byte and respect the limit", () => {
+      const buf = new Uint8Array([1, 0, 2, 0, 3])
+
+      expect(buffer.split(buf, 0).map(p => Array.from(p))).toEqual([[1], [2], [3]])
+      expect(buffer.split(buf, 0, 2).map(p => Array.from(p))).toEqual([[1], [2, 0, 3]])
+      expect(buffer.split(buf, 9).map(p => Array.from(p))).toEqual([[1, 0, 2, 0, 3]])
+    })
+
+    it("should throw for an empty delimiter", () => {
+      expect(() => buffer.split(new Uint8Array([1]), new Uint8Array())).toThrow(RangeError)
+    })
+  })
+
+  describe("compress/decompress", () => {
+    it("should round-trip through gzip by default", async () => {
+      const data = new TextEncoder().encode("aaaa".repeat(100))
+      const compressed = await buffer.compress(data)
+
+      expect(compressed.length).toBeLessThan(data.length)
+      expect(buffer.equals(await buffer.decompress(compressed), data)).toBe(true)
+    })
+
+    it("should provide stream variants", async () => {
+      const data = new TextEncoder().encode("hello")
+      const result = new Blob([data]).stream()
+        .pipeThrough(buffer.compressStream("deflate-raw"))
+        .pipeThrough(buffer.decompressStream("deflate-raw"))
+
+      expect(await new Response(result).text()).toBe("hello")
+    })
+  })
+
+  describe("digest", () => {
+    it("should hash with WebCrypto", async () => {
+      const result = await buffer.digest(new TextEncoder().encode("abc"), "SHA-256")
+
+      expect(buffer.toHex(result)).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad")
+    })
+  })
+
+  describe("checksum", () => {
+    it("should compute non-cryptographic checksums", () => {
+      const data = new TextEncoder().encode("123456789")
+
+      expect(buffer.checksum(data, "crc32")).toBe(0xcbf43926)
+      expect(buffer.checksum(data.buffer, "fnv1a")).toBe(buffer.checksum(data, "fnv1a"))
+    })
+  })
+
+  describe("xor", () => {
+    it("should xor buffers of the same length", () => {
+      expect(Array.from(buffer.xor(new Uint8Array([1, 2, 0xff]), new Uint8Array([3, 3, 0x0f])))).toEqual([2, 1, 0xf0])
+    })
+
+    it("should throw for buffers of different lengths", () => {
+      expect(() => buffer.xor(new Uint8Array(2), new Uint8Array(3))).toThrow(RangeError)
+    })
   })
 
   describe("pad", () => {
@@ -105,6 +248,12 @@ describe("buffer", () => {
       expect(Array.from(result.slice(2 + len))).toEqual([1, 2, 3])
     })
 
+    it("should throw a RangeError for a length the header can't hold", () => {
+      expect(() => buffer.pad(new Uint8Array([1]), 70000)).toThrow(RangeError)
+      expect(() => buffer.pad(new Uint8Array([1]), -1)).toThrow(RangeError)
+      expect(Array.from(buffer.unpad(buffer.pad(new Uint8Array([1]), 65535)))).toEqual([1])
+    })
+
     it("should handle zero padding length", () => {
       const buf = new Uint8Array([1, 2, 3])
       const len = 0
@@ -231,6 +380,105 @@ describe("buffer", () => {
       const dv = new DataView(result.buffer)
       expect(dv.getUint16(0, false)).toBe(10)
     })
+
+    it("should draw the padding length from a range", () => {
+      vi.mocked(crypto.getRandomValues).mockImplementation((array) => {
+        if (array instanceof Uint32Array) {
+          array[0] = 1000
+        }
+        return array
+      })
+
+      const result = buffer.padRand(new Uint8Array([1]), { min: 300, max: 400 })
+
+      expect(new DataView(result.buffer).getUint16(0, false)).toBe(300 + 1000 % 101)
+      expect(Array.from(buffer.unpad(result))).toEqual([1])
+    })
+  })
+
+  describe("unpad", () => {
+    it("should strip the header and padding added by pad", () => {
+      const buf = new Uint8Array([1, 2, 3])
+
+      expect(Array.from(buffer.unpad(buffer.pad(buf, 5)))).toEqual([1, 2, 3])
+      expect(Array.from(buffer.unpad(buffer.pad(buf, 0)))).toEqual([1, 2, 3])
+      expect(Array.from(buffer.unpad(buffer.pad(new Uint8Array(), 3)))).toEqual([])
+    })
+
+    it("should throw a PaddingError for a missing header", () => {
+      expect(() => buffer.unpad(new Uint8Array([0]))).toThrow(PaddingError)
+    })
+
+    it("should throw a PaddingError when the padding length exceeds the buffer", () => {
+      expect(() => buffer.unpad(new Uint8Array([0, 4, 0, 0]))).toThrow("Padding length 4 exceeds the 2 bytes available")
+    })
+
+    it("should throw a PaddingError for non-zero padding", () => {
+      expect(() => buffer.unpad(new Uint8Array([0, 2, 0, 1, 9]))).toThrow("Non-zero padding bytes in header padding")
+    })
+  })
+
+  describe("toBase64", () => {
+    it("should encode buffers larger than the argument limit", () => {
+      const big = new Uint8Array(2 * 1024 * 1024).map((_, i) => i % 256)
+
+      const result = buffer.toBase64(big)
+
+      expect(result).toBe(Buffer.from(big).toString("base64"))
+    })
+
+    it("should encode the bytes of non-byte typed arrays", () => {
+      const result = buffer.toBase64(new Uint16Array([0x0201]))
+
+      expect(result).toBe("AQI=")
+    })
+  })
+
+  describe("makeUrlSafe/makeUrlUnsafe", () => {
+    it("should convert between the alphabets, padding without counting whitespace", () => {
+      expect(makeUrlSafe("+/8=")).toBe("-_8")
+      expect(makeUrlUnsafe("-_8")).toBe("+/8=")
+      expect(makeUrlUnsafe("-_8\n")).toBe("+/8\n=")
+    })
+  })
+
+  describe("fromBase64", () => {
+    it("should decode standard and URL-safe base64", () => {
+      expect(Array.from(buffer.fromBase64("+/8="))).toEqual([251, 255])
+      expect(Array.from(buffer.fromBase64("-_8"))).toEqual([251, 255])
+    })
+
+    it("should validate standard or URL-safe input in strict mode", () => {
+      expect(Array.from(buffer.fromBase64("+/8=", "strict"))).toEqual([251, 255])
+      expect(Array.from(buffer.fromBase64("-_8", "strict"))).toEqual([251, 255])
+      expect(() => buffer.fromBase64("+_8=", "strict")).toThrow(DecodeError)
+    })
+
+    it("should take standard base64 with line breaks in lenient mode", () => {
+      expect(Array.from(buffer.fromBase64("MIIB\r\n+/8=\n", "lenient"))).toEqual([48, 130, 1, 251, 255])
+    })
+
+    it("should round-trip multi-megabyte buffers", () => {
+      const big = new Uint8Array(3 * 1024 * 1024 + 1).map((_, i) => (i * 13) % 256)
+
+      const result = buffer.fromBase64(buffer.toBase64(big, true))
+
+      expect(Buffer.from(result).equals(big)).toBe(true)
+    })
+  })
+
+  describe("fromHex", () => {
+    it("should silently decode invalid characters by default", () => {
+      expect(Array.from(buffer.fromHex("0g"))).toEqual([0])
+    })
+
+    it("should reject invalid characters in strict mode", () => {
+      expect(() => buffer.fromHex("0g", "strict")).toThrow(DecodeError)
+    })
+
+    it("should skip whitespace in lenient mode", () => {
+      expect(Array.from(buffer.fromHex("de ad\nbe ef", "lenient"))).toEqual([0xde, 0xad, 0xbe, 0xef])
+    })
   })
 
   describe("TypedArrays type coverage", () => {
@@ -1,3 +1,10 @@
+import { decode, encode, type CodecName } from "./codecs"
+import { compress, compressStream, decompress, decompressStream, type CompressionFormat } from "./compression"
+import { checksum, digest, type ChecksumAlgorithm, type DigestAlgorithm } from "./hash"
+import { $padding, type RandomPaddingOptions } from "./padding"
+import { sniffType } from "./sniff"
+import { toBytes, type DecodeMode } from "./transcoders"
+
 export type TypedArrays =
   Int8Array
   | Uint8Array
@@ -27,7 +34,7 @@ export const $buffer = {
     const merged = new Uint8Array(len)
 
     for (let i = 0, offset = 0; i < bufs.length; i++) {
-      const buf = new Uint8Array(bufs[i].buffer)
+      const buf = toBytes(bufs[i])
       merged.set(buf, offset)
       offset += buf.byteLength
     }
@@ -39,25 +46,35 @@ export const $buffer = {
   /**
    * Pads a Uint8Array with `len` zeros.
    * @param buf - The buffer to pad
-   * @param len - The length of the padding
+   * @param len - The length of the padding, up to 65535
    * @returns A new padded buffer
+   * @throws {RangeError} If the length is not an integer from 0 to 65535
    */
   pad(buf: Uint8Array, len: number) {
-    const offset = 2 + len
-    const padded = new Uint8Array(offset + buf.length)
-    padded.fill(0, 0, offset)
-    padded.set(buf, offset)
-    const dv = new DataView(padded.buffer)
-    dv.setUint16(0, len, false)
-    return padded
+    return $padding.header(len).pad(buf)
+  },
+
+  /**
+   * Strips the padding added by `pad` or `padRand`.
+   * @param buf - The padded buffer
+   * @returns A new buffer without the length header and padding
+   * @throws {PaddingError} If the header is missing, the padding length exceeds the buffer, or the padding is not all zeros
+   */
+  unpad(buf: Uint8Array) {
+    return $padding.header().unpad(buf)
   },
 
   /**
-   * Pads a Uint8Array with a random number of zeros.
+   * Pads a Uint8Array with a random number of zeros, from 0 to 255 unless a range is given.
    * @param buf - The buffer to pad
+   * @param range - The padding length range, up to 65535
    * @returns A new padded buffer with random length
    */
-  padRand(buf: Uint8Array) {
+  padRand(buf: Uint8Array, range?: RandomPaddingOptions) {
+    if (range) {
+      return $padding.random(range).pad(buf)
+    }
+
     const lenBuf = crypto.getRandomValues(new Uint8Array(1))
     const dv = new DataView(lenBuf.buffer)
     const len = dv.getUint8(0)
@@ -76,32 +93,24 @@ export const $buffer = {
    * base64.encode(new Uint8Array([1, 2, 3]).buffer, true) // returns "AQID" (URL-safe)
    */
   toBase64(buf: ArrayBuffer | TypedArrays, urlSafe=false) {
-    const bytes = new Uint8Array(buf)
-    const byteStr = String.fromCharCode(...bytes)
-    const base64 = btoa(byteStr)
-    return urlSafe ? makeUrlSafe(base64) : base64
+    return encode(buf, urlSafe ? "base64url" : "base64")
   },
 
   /**
    * Decodes a base64 string to a Uint8Array.
    * Handles both standard and URL-safe base64 formats.
    *
+   * With a mode, input with '+' or '/' is validated as standard base64, otherwise as URL-safe.
+   *
    * @param base64 - The base64 string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
    * @example
    * base64.decode("AQID") // returns Uint8Array([1, 2, 3])
    */
-  fromBase64(base64: string) {
-    base64 = makeUrlUnsafe(base64)
-
-    const byteStr = atob(base64)
-    const buffer = new Uint8Array(byteStr.length)
-
-    for (let i = 0; i < byteStr.length; i++) {
-      buffer[i] = byteStr.charCodeAt(i)
-    }
-
-    return buffer
+  fromBase64(base64: string, mode?: DecodeMode) {
+    return decode(base64, "base64", mode)
   },
 
   /**
@@ -114,8 +123,7 @@ export const $buffer = {
    * hex.encode(new Uint8Array([1, 2, 3]).buffer) // returns "010203"
    */
   toHex(buf: ArrayBuffer | TypedArrays) {
-    const bytes = new Uint8Array(buf)
-    return Array.prototype.map.call(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+    return encode(buf, "hex")
   },
 
   /**
@@ -123,58 +131,299 @@ export const $buffer = {
    * Handles odd-length strings by padding with a leading zero.
    *
    * @param hex - The hexadecimal string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid for the given mode
    * @example
    * hex.decode("010203") // returns Uint8Array([1, 2, 3])
    */
-  fromHex(hex: string) {
-    hex = hex.length % 2 ? hex.padStart(hex.length + 1, "0") : hex
-    const size = hex.length / 2
-    const bytes = new Uint8Array(size)
+  fromHex(hex: string, mode?: DecodeMode) {
+    return decode(hex, "hex", mode)
+  },
+
+  /**
+   * Encodes a buffer to text with a registered codec.
+   *
+   * @param buf - The buffer to encode
+   * @param codec - The codec name, e.g. `"base64url"` or `"base58"`
+   * @returns The encoded text
+   * @example
+   * $buffer.encode(new Uint8Array([1, 2, 3]), "base32") // returns "AEBAG==="
+   */
+  encode(buf: ArrayBuffer | TypedArrays, codec: CodecName) {
+    return encode(buf, codec)
+  },
+
+  /**
+   * Decodes text to a Uint8Array with a registered codec.
+   *
+   * @param text - The text to decode
+   * @param codec - The codec name, e.g. `"base64url"` or `"base58"`
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * $buffer.decode("AEBAG===", "base32") // returns Uint8Array([1, 2, 3])
+   */
+  decode(text: string, codec: CodecName, mode?: DecodeMode) {
+    return decode(text, codec, mode)
+  },
+
+  /**
+   * Compresses a buffer with `CompressionStream`.
+   *
+   * @param buf - The buffer to compress
+   * @param format - The compression format
+   * @returns A promise resolving to the compressed bytes
+   * @example
+   * await $buffer.compress(new TextEncoder().encode(json), "gzip")
+   */
+  compress(buf: ArrayBuffer | TypedArrays, format: CompressionFormat = "gzip") {
+    return compress(buf, format)
+  },
+
+  /**
+   * Decompresses a buffer with `DecompressionStream`.
+   *
+   * @param buf - The compressed buffer
+   * @param format - The compression format
+   * @returns A promise resolving to the decompressed bytes
+   * @throws If the input is not valid compressed data
+   * @example
+   * await $buffer.decompress(gzipped, "gzip")
+   */
+  decompress(buf: ArrayBuffer | TypedArrays, format: CompressionFormat = "gzip") {
+    return decompress(buf, format)
+  },
+
+  /**
+   * Creates a TransformStream that compresses a stream of bytes.
+   *
+   * @param format - The compression format
+   * @returns A TransformStream of bytes to compressed bytes
+   * @example
+   * blob.stream().pipeThrough($buffer.compressStream("gzip"))
+   */
+  compressStream(format: CompressionFormat = "gzip") {
+    return compressStream(format)
+  },
+
+  /**
+   * Creates a TransformStream that decompresses a stream of bytes.
+   *
+   * @param format - The compression format
+   * @returns A TransformStream of compressed bytes to bytes
+   * @example
+   * response.body.pipeThrough($buffer.decompressStream("gzip"))
+   */
+  decompressStream(format: CompressionFormat = "gzip") {
+    return decompressStream(format)
+  },
+
+  /**
+   * Detects the MIME type of a buffer from its leading bytes.
+   *
+   * @param buf - The buffer to inspect
+   * @returns The MIME type, or undefined if the format is not recognised
+   * @example
+   * $buffer.sniffType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])) // returns "image/jpeg"
+   */
+  sniffType(buf: ArrayBuffer | TypedArrays) {
+    return sniffType(buf)
+  },
+
+  /**
+   * Hashes a buffer with WebCrypto.
+   *
+   * @param buf - The buffer to hash
+   * @param algorithm - The hash algorithm
+   * @returns A promise resolving to the hash bytes
+   * @example
+   * $buffer.toHex(await $buffer.digest(buf, "SHA-256"))
+   */
+  digest(buf: ArrayBuffer | TypedArrays, algorithm: DigestAlgorithm = "SHA-256") {
+    return digest(buf, algorithm)
+  },
+
+  /**
+   * Computes a fast, non-cryptographic checksum of a buffer.
+   *
+   * @param buf - The buffer to checksum
+   * @param algorithm - The checksum algorithm
+   * @returns The checksum, as an unsigned 32-bit integer
+   * @example
+   * $buffer.checksum(buf, "crc32")
+   */
+  checksum(buf: ArrayBuffer | TypedArrays, algorithm: ChecksumAlgorithm) {
+    return checksum(buf, algorithm)
+  },
+
+  /**
+   * Checks whether two buffers contain the same bytes.
+   * Views are compared within their own windows, so a subarray equals a copy of it.
+   *
+   * @param a - The first buffer
+   * @param b - The second buffer
+   * @returns True if the bytes are equal
+   * @example
+   * $buffer.equals(new Uint8Array([1, 2]), new Uint8Array([1, 2])) // returns true
+   */
+  equals(a: ArrayBuffer | TypedArrays, b: ArrayBuffer | TypedArrays) {
+    const x = toBytes(a)
+    const y = toBytes(b)
+    return x.length === y.length && x.every((v, i) => v === y[i])
+  },
+
+  /**
+   * Checks whether two buffers contain the same bytes, in time that depends only on their length.
+   * Use this to compare secrets such as MACs and tokens. Buffers of different lengths are unequal,
+   * and the length itself is not hidden.
+   *
+   * @param a - The first buffer
+   * @param b - The second buffer
+   * @returns True if the bytes are equal
+   * @example
+   * $buffer.timingSafeEqual(expectedMac, receivedMac)
+   */
+  timingSafeEqual(a: ArrayBuffer | TypedArrays, b: ArrayBuffer | TypedArrays) {
+    const x = toBytes(a)
+    const y = toBytes(b)
+
+    if (x.length !== y.length) {
+      return false
+    }
+
+    let diff = 0
 
-    for (let i = 0; i < size; i++) {
-      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+    for (let i = 0; i < x.length; i++) {
+      diff |= x[i] ^ y[i]
     }
 
-    return bytes
+    return diff === 0
   },
-}
 
+  /**
+   * Compares two buffers byte by byte, for use as a sort comparator.
+   * A buffer that is a prefix of another sorts first.
+   *
+   * @param a - The first buffer
+   * @param b - The second buffer
+   * @returns -1 if `a` sorts before `b`, 1 if after, 0 if equal
+   * @example
+   * [new Uint8Array([2]), new Uint8Array([1, 5])].sort($buffer.compare) // [[1, 5], [2]]
+   */
+  compare(a: ArrayBuffer | TypedArrays, b: ArrayBuffer | TypedArrays) {
+    const x = toBytes(a)
+    const y = toBytes(b)
+    const len = Math.min(x.length, y.length)
 
-const unsafeToSafe: Record<string, string> = {
-  "=": "",
-  "+": "-",
-  "/": "_",
-}
+    for (let i = 0; i < len; i++) {
+      if (x[i] !== y[i]) {
+        return x[i] < y[i] ? -1 : 1
+      }
+    }
 
-const safeToUnsafe: Record<string, string> = {
-  "-": "+",
-  "_": "/",
-}
+    return Math.sign(x.length - y.length)
+  },
 
-/**
- * Converts a standard base64 string to URL-safe format.
- * Replaces '+', '/', and '=' with '-', '_', and removes padding respectively.
- *
- * @param base64 - The standard base64 string to convert
- * @returns A URL-safe base64 string
- * @example
- * makeUrlSafe("AQID+") // returns "AQID-"
- */
-export function makeUrlSafe(base64: string) {
-  return base64.replace(/[=+/]/gm, (m) => unsafeToSafe[m])
-}
+  /**
+   * Finds the first occurrence of a byte pattern.
+   *
+   * @param buf - The buffer to search
+   * @param pattern - The bytes, or a single byte value, to find
+   * @param from - The offset to start searching from
+   * @returns The offset of the pattern, or -1 if it is not found
+   * @example
+   * $buffer.indexOf(new Uint8Array([1, 2, 3, 2, 3]), new Uint8Array([2, 3]), 2) // returns 3
+   */
+  indexOf(buf: ArrayBuffer | TypedArrays, pattern: ArrayBuffer | TypedArrays | number, from = 0) {
+    const bytes = toBytes(buf)
+    const needle = typeof pattern === "number" ? new Uint8Array([pattern]) : toBytes(pattern)
+
+    if (needle.length === 0) {
+      return Math.min(Math.max(from, 0), bytes.length)
+    }
 
-/**
- * Converts a URL-safe base64 string to standard format.
- * Replaces '-', '_' with '+', '/' and adds appropriate padding.
- *
- * @param base64 - The URL-safe base64 string to convert
- * @returns A standard base64 string
- * @example
- * makeUrlUnsafe("AQID-") // returns "AQID+"
- */
-export function makeUrlUnsafe(base64: string) {
-  const padding = "=".repeat((4 - (base64.length % 4)) % 4)
-  return base64.replace(/[-_]/gm, (m) => safeToUnsafe[m]) + padding
+    const last = bytes.length - needle.length
+
+    // Jump between occurrences of the first byte, then check the rest
+    for (let i = bytes.indexOf(needle[0], from); i !== -1 && i <= last; i = bytes.indexOf(needle[0], i + 1)) {
+      let j = 1
+      for (; j < needle.length && bytes[i + j] === needle[j]; j++) { }
+
+      if (j === needle.length) {
+        return i
+      }
+    }
+
+    return -1
+  },
+
+  /**
+   * Checks whether a buffer contains a byte pattern.
+   *
+   * @param buf - The buffer to search
+   * @param pattern - The bytes, or a single byte value, to find
+   * @param from - The offset to start searching from
+   * @returns True if the pattern is found
+   * @example
+   * $buffer.includes(new Uint8Array([1, 2, 3]), new Uint8Array([2, 3])) // returns true
+   */
+  includes(buf: ArrayBuffer | TypedArrays, pattern: ArrayBuffer | TypedArrays | number, from = 0) {
+    return this.indexOf(buf, pattern, from) !== -1
+  },
+
+  /**
+   * Splits a buffer on a delimiter.
+   * The parts are views into the buffer, not copies.
+   *
+   * @param buf - The buffer to split
+   * @param delimiter - The bytes, or a single byte value, to split on
+   * @param limit - The maximum number of parts, the last part holds the rest of the buffer
+   * @returns The parts between delimiters
+   * @throws {RangeError} If the delimiter is empty
+   * @example
+   * $buffer.split(new Uint8Array([1, 0, 2, 0, 3]), 0) // returns [[1], [2], [3]]
+   */
+  split(buf: ArrayBuffer | TypedArrays, delimiter: ArrayBuffer | TypedArrays | number, limit = Infinity) {
+    const bytes = toBytes(buf)
+    const size = typeof delimiter === "number" ? 1 : delimiter.byteLength
+    const parts: Uint8Array[] = []
+
+    if (size === 0) {
+      throw new RangeError("Cannot split on an empty delimiter")
+    }
+
+    let start = 0
+
+    for (let i; parts.length < limit - 1 && (i = this.indexOf(bytes, delimiter, start)) !== -1; start = i + size) {
+      parts.push(bytes.subarray(start, i))
+    }
+
+    limit > 0 && parts.push(bytes.subarray(start))
+    return parts
+  },
+
+  /**
+   * XORs two buffers of the same length together.
+   *
+   * @param a - The first buffer
+   * @param b - The second buffer
+   * @returns A new Uint8Array of `a[i] ^ b[i]`
+   * @throws {RangeError} If the buffers differ in length
+   * @example
+   * $buffer.xor(new Uint8Array([1, 2]), new Uint8Array([3, 3])) // returns Uint8Array([2, 1])
+   */
+  xor(a: ArrayBuffer | TypedArrays, b: ArrayBuffer | TypedArrays) {
+    const x = toBytes(a)
+    const y = toBytes(b)
+
+    if (x.length !== y.length) {
+      throw new RangeError(`Cannot xor buffers of different lengths, ${x.length} and ${y.length}`)
+    }
+
+    return x.map((v, i) => v ^ y[i])
+  },
 }
+
+export { makeUrlSafe, makeUrlUnsafe } from "./transcoders"
@@ -0,0 +1,201 @@
+import { DecodeError } from "./transcoders"
+
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "latin1" | "windows-1252"
+
+export interface TextEncodeOptions {
+  /** Prefix the output with the encoding's byte order mark (UTF encodings only) */
+  bom?: boolean
+  /** Throw a RangeError for characters the encoding cannot represent, instead of writing '?' */
+  fatal?: boolean
+}
+
+export interface TextDecodeOptions {
+  /** Throw a DecodeError for malformed input, instead of writing U+FFFD */
+  fatal?: boolean
+  /** Keep a leading byte order mark in the output, instead of stripping it */
+  keepBOM?: boolean
+}
+
+const BOMS: Array<[TextEncodingName, number[]]> = [
+  ["utf-8", [0xef, 0xbb, 0xbf]],
+  ["utf-16le", [0xff, 0xfe]],
+  ["utf-16be", [0xfe, 0xff]],
+]
+
+// Code points of windows-1252 bytes 0x80-0x9f. The five undefined bytes map to
+// the C1 control with the same value, as they do in the WHATWG encoding standard.
+const CP1252 = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+]
+const CP1252_UNDEFINED = [0x81, 0x8d, 0x8f, 0x90, 0x9d]
+const cp1252Bytes = new Map<number, number>()
+
+for (let i = 0; i < CP1252.length; i++) {
+  CP1252_UNDEFINED.includes(CP1252[i]) || cp1252Bytes.set(CP1252[i], 0x80 + i)
+}
+
+const LONE_SURROGATE = /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/
+const utf8Enc = new TextEncoder()
+
+/**
+ * Finds the encoding named by a leading byte order mark.
+ */
+export function detectBOM(bytes: Uint8Array): TextEncodingName | undefined {
+  return BOMS.find(([, bom]) => bom.every((b, i) => bytes[i] === b))?.[0]
+}
+
+export function encodeText(text: string, encoding: TextEncodingName, options: TextEncodeOptions = {}) {
+  const { bom = false, fatal = false } = options
+  const prefix = bom ? BOMS.find(([name]) => name === encoding)?.[1] ?? [] : []
+
+  if (fatal && (encoding === "utf-8" || encoding.startsWith("utf-16"))) {
+    const match = LONE_SURROGATE.exec(text)
+    match && unencodable(text, match.index, encoding)
+  }
+
+  if (encoding === "utf-8") {
+    return prefixed(prefix, utf8Enc.encode(text))
+  }
+
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    const out = new Uint8Array(prefix.length + text.length * 2)
+    const dv = new DataView(out.buffer)
+    out.set(prefix)
+
+    for (let i = 0; i < text.length; i++) {
+      dv.setUint16(prefix.length + i * 2, text.charCodeAt(i), encoding === "utf-16le")
+    }
+
+    return out
+  }
+
+  // Single-byte encodings, one byte per UTF-16 code unit
+  const out = new Uint8Array(text.length)
+
+  for (let i = 0; i < text.length; i++) {
+    const b = singleByte(text.charCodeAt(i), encoding)
+
+    if (b < 0) {
+      fatal && unencodable(text, i, encoding)
+      out[i] = 0x3f // "?"
+    } else {
+      out[i] = b
+    }
+  }
+
+  return out
+}
+
+export function decodeText(bytes: Uint8Array, encoding?: TextEncodingName, options: TextDecodeOptions = {}) {
+  const { fatal = false, keepBOM = false } = options
+  const detected = detectBOM(bytes)
+  encoding ??= detected ?? "utf-8"
+
+  if (detected === encoding && !keepBOM) {
+    bytes = bytes.subarray(encoding === "utf-8" ? 3 : 2)
+  }
+
+  if (encoding === "utf-8" || encoding === "utf-16le") {
+    return decodeUtf(bytes, encoding, fatal)
+  }
+
+  if (encoding === "utf-16be") {
+    // Swap to little-endian, an odd trailing byte is left for the decoder to reject
+    const swapped = bytes.slice()
+
+    for (let i = 0; i + 1 < swapped.length; i += 2) {
+      swapped[i] = bytes[i + 1]
+      swapped[i + 1] = bytes[i]
+    }
+
+    return decodeUtf(swapped, "utf-16le", fatal, "utf-16be")
+  }
+
+  const codes = new Uint16Array(bytes.length)
+
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i]
+
+    if (encoding === "windows-1252" && b >= 0x80 && b <= 0x9f) {
+      fatal && CP1252_UNDEFINED.includes(b) && malformed(encoding, i)
+      codes[i] = CP1252[b - 0x80]
+    } else {
+      codes[i] = b
+    }
+  }
+
+  return fromCharCodes(codes)
+}
+
+function singleByte(c: number, encoding: TextEncodingName) {
+  if (c < 0x80 || (c < 0x100 && encoding === "latin1")) {
+    return c
+  }
+
+  if (encoding === "windows-1252") {
+    return c >= 0xa0 && c < 0x100 ? c : cp1252Bytes.get(c) ?? -1
+  }
+
+  return -1
+}
+
+function decodeUtf(bytes: Uint8Array, encoding: "utf-8" | "utf-16le", fatal: boolean, name: string = encoding) {
+  try {
+    return new TextDecoder(encoding, { fatal, ignoreBOM: true }).decode(bytes)
+  } catch (err) {
+    if (!(err instanceof TypeError)) {
+      throw err
+    }
+
+    // Find the offset of the first bad byte by binary searching for the shortest prefix that
+    // fails to decode. Streaming allows an incomplete sequence at the end of each prefix,
+    // so a truncated input reports its length as the offset.
+    let lo = 0
+    let hi = bytes.length
+
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+
+      try {
+        new TextDecoder(encoding, { fatal: true, ignoreBOM: true }).decode(bytes.subarray(0, mid + 1), { stream: true })
+        lo = mid + 1
+      } catch {
+        hi = mid
+      }
+    }
+
+    return malformed(name, lo)
+  }
+}
+
+function fromCharCodes(codes: Uint16Array) {
+  const parts: string[] = []
+
+  // Chunked to stay well within engine argument limits
+  for (let i = 0; i < codes.length; i += 0x2000) {
+    parts.push(String.fromCharCode(...codes.subarray(i, i + 0x2000)))
+  }
+
+  return parts.join("")
+}
+
+function prefixed(prefix: number[], bytes: Uint8Array) {
+  if (prefix.length === 0) {
+    return bytes
+  }
+
+  const out = new Uint8Array(prefix.length + bytes.length)
+  out.set(prefix)
+  out.set(bytes, prefix.length)
+  return out
+}
+
+function malformed(encoding: string, offset: number): never {
+  throw new DecodeError(encoding, "Malformed input", offset)
+}
+
+function unencodable(text: string, offset: number, encoding: string): never {
+  const cp = text.codePointAt(offset)!.toString(16).toUpperCase().padStart(4, "0")
+  throw new RangeError(`Cannot encode U+${cp} at offset ${offset} in ${encoding}`)
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest"
+import { decode, encode, getCodec, registerCodec } from "./codecs"
+import { $buffer } from "./buffer"
+import { blob } from "./blob"
+import { $base64, $hex } from "./text"
+import { DecodeError } from "./transcoders"
+
+
+describe("codecs", () => {
+  // A toy codec that writes each byte as a decimal number
+  registerCodec({
+    name: "decimal",
+    encode: (bytes) => Array.from(bytes).join("."),
+    decode: (text) => new Uint8Array(text ? text.split(".").map(Number) : []),
+  })
+
+  describe("encode", () => {
+    it("should encode with the built-in codecs", () => {
+      const bytes = new Uint8Array([251, 255, 1])
+
+      expect(encode(bytes, "hex")).toBe("fbff01")
+      expect(encode(bytes, "base64")).toBe("+/8B")
+      expect(encode(bytes, "base64url")).toBe("-_8B")
+      expect(encode(bytes, "base32")).toBe("7P7QC===")
+      expect(encode(bytes, "base58")).toBe("2TeHE")
+    })
+
+    it("should encode strings as UTF-8", () => {
+      expect(encode("Hello", "base64url")).toBe("SGVsbG8")
+    })
+
+    it("should only encode the window of a view", () => {
+      const bytes = new Uint8Array([9, 1, 2, 9])
+
+      expect(encode(bytes.subarray(1, 3), "hex")).toBe("0102")
+    })
+
+    it("should throw for an unknown codec", () => {
+      expect(() => encode("x", "nope")).toThrow("Unknown codec: nope")
+      expect(() => getCodec("nope")).toThrow("Unknown codec: nope")
+    })
+  })
+
+  describe("decode", () => {
+    it("should decode with the built-in codecs", () => {
+      expect(Array.from(decode("fbff01", "hex"))).toEqual([251, 255, 1])
+      expect(Array.from(decode("7P7QC===", "base32"))).toEqual([251, 255, 1])
+      expect(Array.from(decode("2TeHE", "base58"))).toEqual([251, 255, 1])
+    })
+
+    it("should accept either alphabet for base64", () => {
+      expect(Array.from(decode("+/8B", "base64"))).toEqual([251, 255, 1])
+      expect(Array.from(decode("-_8B", "base64"))).toEqual([251, 255, 1])
+    })
+
+    it("should pass the decode mode through", () => {
+      expect(() => decode("+/8B", "base64url", "strict")).toThrow(DecodeError)
+      expect(Array.from(decode("fb ff", "hex", "lenient"))).toEqual([251, 255])
+    })
+
+    it("should skip whitespace in base64 without a mode, as atob does", () => {
+      expect(Array.from(decode("AQID\n", "base64"))).toEqual([1, 2, 3])
+      expect(Array.from(decode("AQ ID", "base64"))).toEqual([1, 2, 3])
+      expect(Array.from(decode("-_8\n", "base64"))).toEqual([251, 255])
+    })
+
+    it("should accept either base64 alphabet in lenient mode", () => {
+      expect(Array.from(decode("+/8B\n", "base64", "lenient"))).toEqual([251, 255, 1])
+      expect(Array.from(decode("-_8B\n", "base64", "lenient"))).toEqual([251, 255, 1])
+    })
+  })
+
+  describe("registerCodec", () => {
+    it("should make a custom codec available everywhere by name", async () => {
+      const bytes = new Uint8Array([1, 2, 3])
+
+      expect(encode(bytes, "decimal")).toBe("1.2.3")
+      expect(Array.from(decode("1.2.3", "decimal"))).toEqual([1, 2, 3])
+      expect($buffer.encode(bytes, "decimal")).toBe("1.2.3")
+      expect(await blob.encode(new Blob([bytes]), "decimal")).toBe("1.2.3")
+      expect(Array.from(new Uint8Array(await blob.decode("1.2.3", "decimal").arrayBuffer()))).toEqual([1, 2, 3])
+    })
+
+    it("should replace a codec registered under the same name", () => {
+      const codec = registerCodec({ name: "decimal2", encode: () => "a", decode: () => new Uint8Array() })
+      registerCodec({ name: "decimal2", encode: () => "b", decode: () => new Uint8Array() })
+
+      expect(getCodec("decimal2")).not.toBe(codec)
+      expect(encode("", "decimal2")).toBe("b")
+    })
+
+    it("should be what the $-helpers delegate to", () => {
+      const hex = getCodec("hex")
+      registerCodec({ ...hex, encode: (bytes) => hex.encode(bytes).toUpperCase() })
+
+      try {
+        expect($hex.fromBuffer(new Uint8Array([255]))).toBe("FF")
+        expect($buffer.toHex(new Uint8Array([255]))).toBe("FF")
+        expect($base64.fromBuffer(new Uint8Array([255]))).toBe("/w==")
+      } finally {
+        registerCodec(hex)
+      }
+    })
+  })
+})
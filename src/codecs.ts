@@ -0,0 +1,150 @@
+import { base32, base58, base64, base85, hex, isUrlSafe, toBytes, utf8, type DecodeMode } from "./transcoders"
+
+/**
+ * A binary-to-text codec that can be registered with `registerCodec`
+ * and then used by name with `encode`/`decode`, `$buffer`, `$text` and `blob`.
+ */
+export interface Codec {
+  /** The name the codec is looked up by, e.g. `"base64url"` */
+  readonly name: string
+  /** Encodes bytes to text */
+  encode(bytes: Uint8Array): string
+  /** Decodes text to bytes, throwing a `DecodeError` on invalid input */
+  decode(text: string, mode?: DecodeMode): Uint8Array
+}
+
+/**
+ * The names of the built-in codecs, plus any string for custom codecs.
+ */
+export type CodecName =
+  "hex"
+  | "base64"
+  | "base64url"
+  | "base32"
+  | "base32hex"
+  | "base32crockford"
+  | "base58"
+  | "ascii85"
+  | "z85"
+  | (string & {})
+
+const registry = new Map<string, Codec>()
+
+/**
+ * Registers a codec under its name, replacing any codec already registered under that name.
+ *
+ * @param codec - The codec to register
+ * @returns The registered codec
+ * @example
+ * registerCodec({ name: "rot13", encode: (bytes) => ..., decode: (text) => ... })
+ * encode("hello", "rot13")
+ */
+export function registerCodec(codec: Codec) {
+  registry.set(codec.name, codec)
+  return codec
+}
+
+/**
+ * Looks up a registered codec by name.
+ *
+ * @param name - The codec name
+ * @returns The codec
+ * @throws {Error} If no codec is registered under the name
+ * @example
+ * getCodec("base64url").encode(new Uint8Array([1, 2, 3])) // returns "AQID"
+ */
+export function getCodec(name: CodecName) {
+  const codec = registry.get(name)
+
+  if (!codec) {
+    throw new Error(`Unknown codec: ${name}`)
+  }
+
+  return codec
+}
+
+/**
+ * Encodes data to text with a registered codec.
+ * Strings are encoded as their UTF-8 bytes.
+ *
+ * @param data - The string, ArrayBuffer or view to encode
+ * @param name - The codec name
+ * @returns The encoded text
+ * @example
+ * encode(new Uint8Array([1, 2, 3]), "hex") // returns "010203"
+ * encode("Hello", "base64url") // returns "SGVsbG8"
+ */
+export function encode(data: string | ArrayBuffer | ArrayBufferView, name: CodecName) {
+  return getCodec(name).encode(typeof data === "string" ? utf8.encode(data) : toBytes(data))
+}
+
+/**
+ * Decodes text to bytes with a registered codec.
+ *
+ * @param text - The text to decode
+ * @param name - The codec name
+ * @param mode - Validate the input strictly, or leniently skipping whitespace
+ * @returns A Uint8Array containing the decoded bytes
+ * @throws {DecodeError} If the input is invalid
+ * @example
+ * decode("010203", "hex") // returns Uint8Array([1, 2, 3])
+ */
+export function decode(text: string, name: CodecName, mode?: DecodeMode) {
+  return getCodec(name).decode(text, mode)
+}
+
+registerCodec({
+  name: "hex",
+  encode: (bytes) => hex.encode(bytes),
+  decode: (text, mode) => hex.decode(text, mode),
+})
+
+// Accepts either alphabet. Without a mode only input with '-' or '_' is read as URL-safe, so whatever
+// `atob` takes still decodes, and with a mode input with '+' or '/' is validated as standard base64
+registerCodec({
+  name: "base64",
+  encode: (bytes) => base64.encode(bytes),
+  decode: (text, mode) => base64.decode(text, mode ? isUrlSafe(text) : /[-_]/.test(text), mode),
+})
+
+registerCodec({
+  name: "base64url",
+  encode: (bytes) => base64.encode(bytes, true),
+  decode: (text, mode) => base64.decode(text, true, mode),
+})
+
+registerCodec({
+  name: "base32",
+  encode: (bytes) => base32.encode(bytes),
+  decode: (text, mode) => base32.decode(text, "rfc4648", mode),
+})
+
+registerCodec({
+  name: "base32hex",
+  encode: (bytes) => base32.encode(bytes, "hex"),
+  decode: (text, mode) => base32.decode(text, "hex", mode),
+})
+
+registerCodec({
+  name: "base32crockford",
+  encode: (bytes) => base32.encode(bytes, "crockford"),
+  decode: (text, mode) => base32.decode(text, "crockford", mode),
+})
+
+registerCodec({
+  name: "base58",
+  encode: (bytes) => base58.encode(bytes),
+  decode: (text, mode) => base58.decode(text, mode),
+})
+
+registerCodec({
+  name: "ascii85",
+  encode: (bytes) => base85.encode(bytes),
+  decode: (text, mode) => base85.decode(text, "ascii85", mode),
+})
+
+registerCodec({
+  name: "z85",
+  encode: (bytes) => base85.encode(bytes, "z85"),
+  decode: (text, mode) => base85.decode(text, "z85", mode),
+})
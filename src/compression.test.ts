@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest"
+import { compress, compressStream, decompress, decompressStream, type CompressionFormat } from "./compression"
+
+
+describe("compression", () => {
+  const text = JSON.stringify(Array.from({ length: 200 }, (_, i) => ({ id: i, name: "item" })))
+  const bytes = new TextEncoder().encode(text)
+
+  describe("compress/decompress", () => {
+    it.each<CompressionFormat>(["gzip", "deflate", "deflate-raw"])("should round-trip %s", async (format) => {
+      const compressed = await compress(bytes, format)
+
+      expect(compressed.length).toBeLessThan(bytes.length)
+      expect(Buffer.from(await decompress(compressed, format)).equals(bytes)).toBe(true)
+    })
+
+    it("should write the format's header", async () => {
+      const gzip = await compress(bytes, "gzip")
+      const deflate = await compress(bytes, "deflate")
+
+      expect(Array.from(gzip.subarray(0, 2))).toEqual([0x1f, 0x8b])
+      expect(deflate[0] & 0x0f).toBe(8)
+    })
+
+    it("should compress only the window of a view and accept blobs", async () => {
+      const backing = new Uint8Array([9, 1, 2, 3, 9])
+      const compressed = await compress(backing.subarray(1, 4))
+
+      expect(Array.from(await decompress(new Blob([compressed])))).toEqual([1, 2, 3])
+    })
+
+    it("should reject invalid compressed data", async () => {
+      await expect(decompress(new Uint8Array([1, 2, 3, 4]), "gzip")).rejects.toThrow()
+    })
+  })
+
+  describe("compressStream/decompressStream", () => {
+    it("should round-trip a chunked stream", async () => {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < bytes.length; i += 100) {
+            controller.enqueue(bytes.subarray(i, i + 100))
+          }
+          controller.close()
+        },
+      })
+
+      const result = stream
+        .pipeThrough(compressStream("deflate"))
+        .pipeThrough(decompressStream("deflate"))
+
+      expect(await new Response(result).text()).toBe(text)
+    })
+  })
+})
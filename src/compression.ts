@@ -0,0 +1,63 @@
+import { toBytes } from "./transcoders"
+
+/**
+ * The formats supported by `CompressionStream` and `DecompressionStream`.
+ */
+export type CompressionFormat = "gzip" | "deflate" | "deflate-raw"
+
+/**
+ * Creates a TransformStream that compresses a stream of bytes.
+ *
+ * @param format - The compression format
+ * @returns A TransformStream of bytes to compressed bytes
+ * @example
+ * blob.stream().pipeThrough(compressStream("gzip"))
+ */
+export function compressStream(format: CompressionFormat = "gzip"): TransformStream<BufferSource, Uint8Array> {
+  return new CompressionStream(format)
+}
+
+/**
+ * Creates a TransformStream that decompresses a stream of bytes.
+ * The stream errors if the input is not valid compressed data.
+ *
+ * @param format - The compression format
+ * @returns A TransformStream of compressed bytes to bytes
+ * @example
+ * response.body.pipeThrough(decompressStream("gzip"))
+ */
+export function decompressStream(format: CompressionFormat = "gzip"): TransformStream<BufferSource, Uint8Array> {
+  return new DecompressionStream(format)
+}
+
+/**
+ * Compresses data in one go.
+ *
+ * @param data - A Blob, ArrayBuffer or view to compress
+ * @param format - The compression format
+ * @returns A promise resolving to the compressed bytes
+ * @example
+ * await compress(new TextEncoder().encode(json), "gzip")
+ */
+export function compress(data: Blob | ArrayBuffer | ArrayBufferView, format: CompressionFormat = "gzip") {
+  return transform(data, compressStream(format))
+}
+
+/**
+ * Decompresses data in one go.
+ *
+ * @param data - A Blob, ArrayBuffer or view to decompress
+ * @param format - The compression format
+ * @returns A promise resolving to the decompressed bytes
+ * @throws If the input is not valid compressed data
+ * @example
+ * await decompress(gzipped, "gzip")
+ */
+export function decompress(data: Blob | ArrayBuffer | ArrayBufferView, format: CompressionFormat = "gzip") {
+  return transform(data, decompressStream(format))
+}
+
+async function transform(data: Blob | ArrayBuffer | ArrayBufferView, stream: TransformStream<BufferSource, Uint8Array>) {
+  const blob = data instanceof Blob ? data : new Blob([toBytes(data)])
+  return new Uint8Array(await new Response(blob.stream().pipeThrough(stream)).arrayBuffer())
+}
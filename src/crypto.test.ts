@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest"
+import { $crypto, EnvelopeError } from "./crypto"
+import { PaddingError } from "./padding"
+
+
+describe("$crypto", () => {
+  describe("seal/open", () => {
+    it("should round-trip bytes and strings", async () => {
+      const key = await $crypto.generateKey()
+      const bytes = new Uint8Array([1, 2, 3])
+
+      expect(Array.from(await $crypto.open(key, await $crypto.seal(key, bytes)))).toEqual([1, 2, 3])
+      expect(await $crypto.openText(key, await $crypto.seal(key, "héllo"))).toBe("héllo")
+    })
+
+    it("should write a versioned envelope with a fresh IV", async () => {
+      const key = await $crypto.generateKey()
+      const a = await $crypto.seal(key, "same", { padding: false })
+      const b = await $crypto.seal(key, "same", { padding: false })
+
+      expect(a[0]).toBe(1)
+      expect(a[1]).toBe(0)
+      expect(a.length).toBe(2 + 12 + 4 + 16)
+      expect(a.subarray(2, 14)).not.toEqual(b.subarray(2, 14))
+    })
+
+    it("should pad the plaintext before encryption", async () => {
+      const key = await $crypto.generateKey()
+      const fixed = await $crypto.seal(key, "abc", { padding: 10 })
+      const ranged = await $crypto.seal(key, "abc", { padding: { min: 300, max: 300 } })
+
+      expect(fixed[1]).toBe(1)
+      expect(fixed.length).toBe(2 + 12 + 2 + 10 + 3 + 16)
+      expect(ranged.length).toBe(2 + 12 + 2 + 300 + 3 + 16)
+      expect(await $crypto.openText(key, fixed)).toBe("abc")
+      expect(await $crypto.openText(key, ranged)).toBe("abc")
+    })
+
+    it("should round-trip through URL-safe base64", async () => {
+      const key = await $crypto.generateKey()
+      const token = await $crypto.sealToString(key, "a".repeat(100))
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]+$/)
+      expect(await $crypto.openText(key, token)).toBe("a".repeat(100))
+    })
+
+    it("should authenticate additional data", async () => {
+      const key = await $crypto.generateKey()
+      const additionalData = new TextEncoder().encode("user:1")
+      const envelope = await $crypto.seal(key, "secret", { additionalData })
+
+      expect(await $crypto.openText(key, envelope, { additionalData })).toBe("secret")
+      await expect($crypto.open(key, envelope)).rejects.toThrow(EnvelopeError)
+    })
+
+    it("should throw an EnvelopeError for a wrong key or tampered envelope", async () => {
+      const key = await $crypto.generateKey()
+      const envelope = await $crypto.seal(key, "secret")
+
+      await expect($crypto.open(await $crypto.generateKey(), envelope)).rejects.toThrow("Envelope failed to decrypt")
+
+      envelope[envelope.length - 1] ^= 1
+      await expect($crypto.open(key, envelope)).rejects.toThrow(EnvelopeError)
+    })
+
+    it("should throw an EnvelopeError for a short envelope or unknown version", async () => {
+      const key = await $crypto.generateKey()
+      const envelope = await $crypto.seal(key, "secret")
+
+      await expect($crypto.open(key, envelope.subarray(0, 20))).rejects.toThrow("Envelope of 20 bytes is too short")
+
+      envelope[0] = 2
+      await expect($crypto.open(key, envelope)).rejects.toThrow("Unsupported envelope version 2")
+    })
+
+    it("should throw an EnvelopeError for bad base64 or padding", async () => {
+      const key = await $crypto.generateKey()
+      const envelope = await $crypto.seal(key, "secret", { padding: false })
+
+      await expect($crypto.open(key, "!!!")).rejects.toThrow("Envelope is not valid base64")
+
+      // The padded flag on an unpadded plaintext makes its first bytes read as a bad length header
+      envelope[1] = 1
+      const error = await $crypto.open(key, envelope).catch(err => err)
+      expect(error).toBeInstanceOf(EnvelopeError)
+      expect(error.cause).toBeInstanceOf(PaddingError)
+    })
+
+    it("should throw a RangeError for a padding length the header can't hold", async () => {
+      const key = await $crypto.generateKey()
+
+      await expect($crypto.seal(key, "hi", { padding: 70000 })).rejects.toThrow(RangeError)
+      expect(await $crypto.openText(key, await $crypto.seal(key, "hi", { padding: 65535 }))).toBe("hi")
+    })
+  })
+
+  describe("key derivation", () => {
+    it("should derive the same key from the same password and salt with PBKDF2", async () => {
+      const salt = new Uint8Array(16).fill(7)
+      const key1 = await $crypto.pbkdf2("hunter2", salt, { iterations: 1000 })
+      const key2 = await $crypto.pbkdf2("hunter2", salt, { iterations: 1000 })
+      const other = await $crypto.pbkdf2("hunter3", salt, { iterations: 1000 })
+      const envelope = await $crypto.seal(key1, "secret")
+
+      expect(await $crypto.openText(key2, envelope)).toBe("secret")
+      await expect($crypto.open(other, envelope)).rejects.toThrow(EnvelopeError)
+    })
+
+    it("should derive keys bound to their info with HKDF", async () => {
+      const secret = new Uint8Array(32).fill(1)
+      const salt = new Uint8Array()
+      const key1 = await $crypto.hkdf(secret, salt, "purpose-a")
+      const key2 = await $crypto.hkdf(secret, salt, "purpose-a")
+      const other = await $crypto.hkdf(secret, salt, "purpose-b")
+      const envelope = await $crypto.seal(key1, "secret")
+
+      expect(await $crypto.openText(key2, envelope)).toBe("secret")
+      await expect($crypto.open(other, envelope)).rejects.toThrow(EnvelopeError)
+    })
+
+    it("should import raw key material", async () => {
+      const key = await $crypto.importKey(new Uint8Array(32).fill(9))
+
+      expect(await $crypto.openText(key, await $crypto.seal(key, "x"))).toBe("x")
+    })
+  })
+})
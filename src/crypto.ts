@@ -0,0 +1,252 @@
+import { $buffer, makeUrlSafe, type TypedArrays } from "./buffer"
+import { BufferReader, BufferWriter } from "./cursor"
+import type { RandomPaddingOptions } from "./padding"
+import { toBytes, utf8 } from "./transcoders"
+
+export interface SealOptions {
+  /**
+   * Padding applied before encryption to hide the plaintext length:
+   * `"random"` (the default) pads with `$buffer.padRand`, a range pads with `$buffer.padRand(buf, range)`,
+   * a number from 0 to 65535 pads with `$buffer.pad(buf, n)`, and `false` disables padding.
+   */
+  padding?: "random" | RandomPaddingOptions | number | false
+  /** Data that is authenticated but not encrypted, which must be passed to `open` again */
+  additionalData?: ArrayBuffer | TypedArrays
+}
+
+export interface OpenOptions {
+  /** The additional data passed to `seal` */
+  additionalData?: ArrayBuffer | TypedArrays
+}
+
+export interface KeyDerivationOptions {
+  /** The hash used by the key derivation function, defaults to SHA-256 */
+  hash?: "SHA-256" | "SHA-384" | "SHA-512"
+  /** The AES key length in bits, defaults to 256 */
+  length?: 128 | 192 | 256
+}
+
+export interface Pbkdf2Options extends KeyDerivationOptions {
+  /** The PBKDF2 iteration count, defaults to 600000 */
+  iterations?: number
+}
+
+/**
+ * Thrown by `open` when an envelope is malformed (including bad base64 or padding), has an unsupported version,
+ * or fails to decrypt because the key, additional data or ciphertext is wrong.
+ */
+export class EnvelopeError extends Error {
+  name = "EnvelopeError"
+}
+
+const VERSION = 1
+const FLAG_PADDED = 1
+const IV_SIZE = 12
+const TAG_SIZE = 16
+
+export const $crypto = {
+  /**
+   * Generates a random AES-GCM key.
+   *
+   * @param length - The key length in bits
+   * @param extractable - Whether the key can be exported
+   * @returns A promise resolving to the key
+   * @example
+   * const key = await $crypto.generateKey()
+   */
+  generateKey(length: 128 | 192 | 256 = 256, extractable = false) {
+    return crypto.subtle.generateKey({ name: "AES-GCM", length }, extractable, ["encrypt", "decrypt"])
+  },
+
+  /**
+   * Imports raw bytes as an AES-GCM key.
+   *
+   * @param raw - 16, 24 or 32 bytes of key material
+   * @param extractable - Whether the key can be exported
+   * @returns A promise resolving to the key
+   * @example
+   * const key = await $crypto.importKey($buffer.fromBase64(secret))
+   */
+  importKey(raw: ArrayBuffer | TypedArrays, extractable = false) {
+    return crypto.subtle.importKey("raw", raw, "AES-GCM", extractable, ["encrypt", "decrypt"])
+  },
+
+  /**
+   * Derives an AES-GCM key from a password with PBKDF2.
+   *
+   * @param password - The password, strings are used as UTF-8
+   * @param salt - A random salt of at least 16 bytes, stored alongside the ciphertext
+   * @param options - The hash, iteration count and key length
+   * @returns A promise resolving to the key
+   * @example
+   * const salt = crypto.getRandomValues(new Uint8Array(16))
+   * const key = await $crypto.pbkdf2("correct horse", salt)
+   */
+  async pbkdf2(password: string | ArrayBuffer | TypedArrays, salt: ArrayBuffer | TypedArrays, options: Pbkdf2Options = {}) {
+    const { iterations = 600_000, hash = "SHA-256", length = 256 } = options
+    const material = await crypto.subtle.importKey("raw", bytesOf(password), "PBKDF2", false, ["deriveKey"])
+
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations, hash },
+      material,
+      { name: "AES-GCM", length },
+      false,
+      ["encrypt", "decrypt"],
+    )
+  },
+
+  /**
+   * Derives an AES-GCM key from high-entropy key material, e.g. a shared secret, with HKDF.
+   *
+   * @param secret - The input key material
+   * @param salt - An optional salt, can be empty
+   * @param info - Context that binds the key to its purpose, strings are used as UTF-8
+   * @param options - The hash and key length
+   * @returns A promise resolving to the key
+   * @example
+   * const key = await $crypto.hkdf(sharedSecret, new Uint8Array(), "chat-messages")
+   */
+  async hkdf(secret: ArrayBuffer | TypedArrays, salt: ArrayBuffer | TypedArrays, info: string | ArrayBuffer | TypedArrays, options: KeyDerivationOptions = {}) {
+    const { hash = "SHA-256", length = 256 } = options
+    const material = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey"])
+
+    return crypto.subtle.deriveKey(
+      { name: "HKDF", salt, info: bytesOf(info), hash },
+      material,
+      { name: "AES-GCM", length },
+      false,
+      ["encrypt", "decrypt"],
+    )
+  },
+
+  /**
+   * Encrypts data with AES-GCM into a versioned envelope.
+   * The plaintext is padded first, with a random amount by default, to hide its length.
+   *
+   * The envelope is a version byte, a flags byte, the 12-byte IV, then the ciphertext and 16-byte tag.
+   *
+   * @param key - An AES-GCM key
+   * @param plaintext - The data to encrypt, strings are encrypted as UTF-8
+   * @param options - The padding and additional authenticated data
+   * @returns A promise resolving to the envelope
+   * @throws {RangeError} If the padding length or range is out of bounds
+   * @example
+   * const envelope = await $crypto.seal(key, "secret message")
+   */
+  async seal(key: CryptoKey, plaintext: string | ArrayBuffer | TypedArrays, options: SealOptions = {}) {
+    const { padding = "random", additionalData } = options
+    const padded = pad(bytesOf(plaintext), padding)
+    const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE))
+    const ciphertext = await crypto.subtle.encrypt(aesGcm(iv, additionalData), key, padded)
+
+    return new BufferWriter(2 + IV_SIZE + ciphertext.byteLength)
+      .u8(VERSION)
+      .u8(padding === false ? 0 : FLAG_PADDED)
+      .raw(iv)
+      .raw(ciphertext)
+      .finish()
+  },
+
+  /**
+   * Encrypts data like `seal`, returning the envelope as URL-safe base64.
+   *
+   * @param key - An AES-GCM key
+   * @param plaintext - The data to encrypt, strings are encrypted as UTF-8
+   * @param options - The padding and additional authenticated data
+   * @returns A promise resolving to the URL-safe base64 envelope
+   * @example
+   * const token = await $crypto.sealToString(key, JSON.stringify(session))
+   */
+  async sealToString(key: CryptoKey, plaintext: string | ArrayBuffer | TypedArrays, options?: SealOptions) {
+    return makeUrlSafe($buffer.toBase64(await this.seal(key, plaintext, options)))
+  },
+
+  /**
+   * Decrypts an envelope made by `seal` or `sealToString`, and strips its padding.
+   *
+   * @param key - The AES-GCM key the envelope was sealed with
+   * @param envelope - The envelope bytes, or the envelope as base64
+   * @param options - The additional authenticated data
+   * @returns A promise resolving to the plaintext bytes
+   * @throws {EnvelopeError} If the envelope is malformed or fails to decrypt
+   * @example
+   * const bytes = await $crypto.open(key, envelope)
+   */
+  async open(key: CryptoKey, envelope: string | ArrayBuffer | TypedArrays, options: OpenOptions = {}) {
+    const bytes = typeof envelope === "string" ? decodeEnvelope(envelope) : envelope
+
+    if (bytes.byteLength < 2 + IV_SIZE + TAG_SIZE) {
+      throw new EnvelopeError(`Envelope of ${bytes.byteLength} bytes is too short`)
+    }
+
+    const reader = new BufferReader(bytes)
+    const version = reader.u8()
+    const flags = reader.u8()
+
+    if (version !== VERSION) {
+      throw new EnvelopeError(`Unsupported envelope version ${version}`)
+    }
+
+    const iv = reader.raw(IV_SIZE)
+    let plaintext: Uint8Array
+
+    try {
+      plaintext = new Uint8Array(await crypto.subtle.decrypt(aesGcm(iv, options.additionalData), key, reader.raw(reader.remaining)))
+    } catch (err) {
+      throw new EnvelopeError("Envelope failed to decrypt", { cause: err })
+    }
+
+    if (!(flags & FLAG_PADDED)) {
+      return plaintext
+    }
+
+    try {
+      return $buffer.unpad(plaintext)
+    } catch (err) {
+      throw new EnvelopeError("Envelope padding is invalid", { cause: err })
+    }
+  },
+
+  /**
+   * Decrypts an envelope like `open`, decoding the plaintext as UTF-8.
+   *
+   * @param key - The AES-GCM key the envelope was sealed with
+   * @param envelope - The envelope bytes, or the envelope as base64
+   * @param options - The additional authenticated data
+   * @returns A promise resolving to the plaintext string
+   * @throws {EnvelopeError} If the envelope is malformed or fails to decrypt
+   * @example
+   * const session = JSON.parse(await $crypto.openText(key, token))
+   */
+  async openText(key: CryptoKey, envelope: string | ArrayBuffer | TypedArrays, options?: OpenOptions) {
+    return utf8.decode(await this.open(key, envelope, options))
+  },
+}
+
+function bytesOf(data: string | ArrayBuffer | TypedArrays) {
+  return typeof data === "string" ? utf8.encode(data) : toBytes(data)
+}
+
+function decodeEnvelope(envelope: string) {
+  try {
+    return $buffer.fromBase64(envelope)
+  } catch (err) {
+    throw new EnvelopeError("Envelope is not valid base64", { cause: err })
+  }
+}
+
+function pad(bytes: Uint8Array, padding: NonNullable<SealOptions["padding"]>) {
+  if (padding === false) {
+    return bytes
+  }
+
+  if (typeof padding === "number") {
+    return $buffer.pad(bytes, padding)
+  }
+
+  return $buffer.padRand(bytes, padding === "random" ? undefined : padding)
+}
+
+function aesGcm(iv: Uint8Array, additionalData?: ArrayBuffer | TypedArrays): AesGcmParams {
+  return additionalData ? { name: "AES-GCM", iv, additionalData } : { name: "AES-GCM", iv }
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest"
+import { BufferReader, BufferWriter } from "./cursor"
+
+
+describe("cursor", () => {
+  describe("BufferWriter", () => {
+    it("should write numbers big-endian by default", () => {
+      const bytes = new BufferWriter()
+        .u8(0xff)
+        .u16(0x0102)
+        .u32(0x03040506)
+        .finish()
+
+      expect(Array.from(bytes)).toEqual([0xff, 1, 2, 3, 4, 5, 6])
+    })
+
+    it("should write numbers little-endian when configured or per call", () => {
+      const writer = new BufferWriter(8, { littleEndian: true })
+      writer.u16(0x0102).u16(0x0304, false)
+
+      expect(Array.from(writer.finish())).toEqual([2, 1, 3, 4])
+    })
+
+    it("should grow past its initial capacity", () => {
+      const writer = new BufferWriter(1)
+
+      for (let i = 0; i < 100; i++) {
+        writer.u32(i)
+      }
+
+      const bytes = writer.finish()
+      expect(bytes.length).toBe(400)
+      expect(new DataView(bytes.buffer).getUint32(396)).toBe(99)
+    })
+
+    it("should write 64-bit integers from numbers or bigints", () => {
+      const bytes = new BufferWriter()
+        .u64(1)
+        .i64(-1n)
+        .finish()
+
+      expect(Array.from(bytes)).toEqual([0, 0, 0, 0, 0, 0, 0, 1, 255, 255, 255, 255, 255, 255, 255, 255])
+    })
+
+    it("should write unsigned and signed LEB128 varints", () => {
+      expect(Array.from(new BufferWriter().varint(0).finish())).toEqual([0])
+      expect(Array.from(new BufferWriter().varint(624485).finish())).toEqual([0xe5, 0x8e, 0x26])
+      expect(Array.from(new BufferWriter().svarint(-123456).finish())).toEqual([0xc0, 0xbb, 0x78])
+      expect(Array.from(new BufferWriter().svarint(63).finish())).toEqual([0x3f])
+      expect(Array.from(new BufferWriter().svarint(64).finish())).toEqual([0xc0, 0x00])
+    })
+
+    it("should reject invalid varint values", () => {
+      expect(() => new BufferWriter().varint(-1)).toThrow(RangeError)
+      expect(() => new BufferWriter().varint(1.5)).toThrow(RangeError)
+      expect(() => new BufferWriter().varint(-1n)).toThrow(RangeError)
+    })
+
+    it("should write length-prefixed bytes and strings", () => {
+      const bytes = new BufferWriter()
+        .lpBytes(new Uint8Array([1, 2]), "u16")
+        .string("héllo")
+        .finish()
+
+      expect(Array.from(bytes)).toEqual([0, 2, 1, 2, 6, 104, 195, 169, 108, 108, 111])
+    })
+
+    it("should reject a length that does not fit its prefix", () => {
+      expect(() => new BufferWriter().lpBytes(new Uint8Array(256), "u8")).toThrow(RangeError)
+    })
+  })
+
+  describe("BufferReader", () => {
+    it("should read back everything a writer wrote", () => {
+      const bytes = new BufferWriter(4, { littleEndian: true })
+        .u8(200)
+        .i8(-5)
+        .u16(65535)
+        .i16(-2)
+        .u32(4000000000)
+        .i32(-4000)
+        .u64(2n ** 63n)
+        .i64(-(2n ** 40n))
+        .f32(1.5)
+        .f64(Math.PI)
+        .varint(2n ** 64n - 1n)
+        .svarint(-1)
+        .lpBytes(new Uint8Array([9, 8, 7]), "u32")
+        .string("日本語", "u8")
+        .finish()
+
+      const reader = new BufferReader(bytes, { littleEndian: true })
+
+      expect(reader.u8()).toBe(200)
+      expect(reader.i8()).toBe(-5)
+      expect(reader.u16()).toBe(65535)
+      expect(reader.i16()).toBe(-2)
+      expect(reader.u32()).toBe(4000000000)
+      expect(reader.i32()).toBe(-4000)
+      expect(reader.u64()).toBe(2n ** 63n)
+      expect(reader.i64()).toBe(-(2n ** 40n))
+      expect(reader.f32()).toBe(1.5)
+      expect(reader.f64()).toBe(Math.PI)
+      expect(reader.bigVarint()).toBe(2n ** 64n - 1n)
+      expect(reader.svarint()).toBe(-1)
+      expect(Array.from(reader.lpBytes("u32"))).toEqual([9, 8, 7])
+      expect(reader.string("u8")).toBe("日本語")
+      expect(reader.remaining).toBe(0)
+    })
+
+    it("should round-trip signed varints", () => {
+      const values = [0, 1, -1, 63, -64, 64, -65, 2 ** 31, -(2 ** 31), Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER]
+      const writer = new BufferWriter()
+      values.forEach(v => writer.svarint(v))
+      const reader = new BufferReader(writer.finish())
+
+      expect(values.map(() => reader.svarint())).toEqual(values)
+    })
+
+    it("should keep a leading byte order mark in strings", () => {
+      const reader = new BufferReader(new BufferWriter().string("\uFEFFabc").finish())
+
+      expect(reader.string()).toBe("\uFEFFabc")
+    })
+
+    it("should read within the window of a view", () => {
+      const backing = new Uint8Array([0xaa, 0, 1, 0xbb])
+      const reader = new BufferReader(backing.subarray(1, 3))
+
+      expect(reader.u16()).toBe(1)
+      expect(() => reader.u8()).toThrow(RangeError)
+    })
+
+    it("should throw a RangeError on reads past the end without moving the cursor", () => {
+      const reader = new BufferReader(new Uint8Array([1, 2, 3]))
+      reader.u8()
+
+      expect(() => reader.u32()).toThrow("Read of 4 bytes at offset 1 exceeds buffer length 3")
+      expect(reader.offset).toBe(1)
+      expect(() => reader.skip(3)).toThrow(RangeError)
+      expect(reader.skip(2).remaining).toBe(0)
+    })
+
+    it("should throw on truncated, overlong or unsafe varints", () => {
+      expect(() => new BufferReader(new Uint8Array([0x80, 0x80])).varint()).toThrow(RangeError)
+      expect(() => new BufferReader(new Uint8Array(11).fill(0x80)).bigVarint()).toThrow("Varint too long")
+      expect(() => new BufferReader(new BufferWriter().varint(2n ** 53n).finish()).varint()).toThrow("not a safe integer")
+    })
+
+    it("should throw when a length prefix exceeds the remaining bytes", () => {
+      const reader = new BufferReader(new Uint8Array([5, 1, 2]))
+
+      expect(() => reader.lpBytes()).toThrow(RangeError)
+    })
+  })
+})
@@ -0,0 +1,406 @@
+import { $text } from "./text"
+import { toBytes } from "./transcoders"
+
+/**
+ * How the length of a length-prefixed byte string or string is written:
+ * as a fixed-size unsigned integer, or as an unsigned LEB128 varint.
+ */
+export type LengthPrefix = "u8" | "u16" | "u32" | "varint"
+
+export interface CursorOptions {
+  /** Read and write multi-byte numbers little-endian, defaults to big-endian (network order) */
+  littleEndian?: boolean
+}
+
+const MAX_VARINT_BYTES = 10
+
+/**
+ * Writes binary data into an automatically growing buffer.
+ * Every write method advances the cursor and returns the writer, so writes can be chained.
+ *
+ * @example
+ * const bytes = new BufferWriter()
+ *   .u8(1)
+ *   .u16(512)
+ *   .string("hello")
+ *   .finish()
+ */
+export class BufferWriter {
+  private bytes: Uint8Array
+  private view: DataView
+  /** The current write position, which is also the number of bytes written */
+  offset = 0
+  readonly littleEndian: boolean
+
+  /**
+   * @param capacity - The initial capacity in bytes, the buffer doubles in size whenever it fills up
+   * @param options - The default byte order
+   */
+  constructor(capacity = 64, options: CursorOptions = {}) {
+    this.bytes = new Uint8Array(Math.max(1, capacity))
+    this.view = new DataView(this.bytes.buffer)
+    this.littleEndian = options.littleEndian ?? false
+  }
+
+  /**
+   * Makes room for at least `size` more bytes after the cursor.
+   * @param size - The number of bytes about to be written
+   */
+  reserve(size: number) {
+    const needed = this.offset + size
+
+    if (needed > this.bytes.length) {
+      let capacity = this.bytes.length * 2
+      for (; capacity < needed; capacity *= 2) { }
+      const bytes = new Uint8Array(capacity)
+      bytes.set(this.bytes.subarray(0, this.offset))
+      this.bytes = bytes
+      this.view = new DataView(bytes.buffer)
+    }
+
+    return this
+  }
+
+  u8(value: number) {
+    this.reserve(1).view.setUint8(this.offset, value)
+    this.offset += 1
+    return this
+  }
+
+  i8(value: number) {
+    this.reserve(1).view.setInt8(this.offset, value)
+    this.offset += 1
+    return this
+  }
+
+  u16(value: number, littleEndian = this.littleEndian) {
+    this.reserve(2).view.setUint16(this.offset, value, littleEndian)
+    this.offset += 2
+    return this
+  }
+
+  i16(value: number, littleEndian = this.littleEndian) {
+    this.reserve(2).view.setInt16(this.offset, value, littleEndian)
+    this.offset += 2
+    return this
+  }
+
+  u32(value: number, littleEndian = this.littleEndian) {
+    this.reserve(4).view.setUint32(this.offset, value, littleEndian)
+    this.offset += 4
+    return this
+  }
+
+  i32(value: number, littleEndian = this.littleEndian) {
+    this.reserve(4).view.setInt32(this.offset, value, littleEndian)
+    this.offset += 4
+    return this
+  }
+
+  u64(value: bigint | number, littleEndian = this.littleEndian) {
+    this.reserve(8).view.setBigUint64(this.offset, BigInt(value), littleEndian)
+    this.offset += 8
+    return this
+  }
+
+  i64(value: bigint | number, littleEndian = this.littleEndian) {
+    this.reserve(8).view.setBigInt64(this.offset, BigInt(value), littleEndian)
+    this.offset += 8
+    return this
+  }
+
+  f32(value: number, littleEndian = this.littleEndian) {
+    this.reserve(4).view.setFloat32(this.offset, value, littleEndian)
+    this.offset += 4
+    return this
+  }
+
+  f64(value: number, littleEndian = this.littleEndian) {
+    this.reserve(8).view.setFloat64(this.offset, value, littleEndian)
+    this.offset += 8
+    return this
+  }
+
+  /**
+   * Writes an unsigned LEB128 varint.
+   * @param value - A non-negative integer
+   * @throws {RangeError} If the value is negative or not a safe integer
+   */
+  varint(value: bigint | number) {
+    if (typeof value === "number" && !(Number.isSafeInteger(value) && value >= 0)) {
+      throw new RangeError(`Invalid varint value: ${value}`)
+    }
+
+    let v = BigInt(value)
+
+    if (v < 0n) {
+      throw new RangeError(`Invalid varint value: ${value}`)
+    }
+
+    for (; v > 0x7fn; v >>= 7n) {
+      this.u8(Number(v & 0x7fn) | 0x80)
+    }
+
+    return this.u8(Number(v))
+  }
+
+  /**
+   * Writes a signed LEB128 varint.
+   * @param value - An integer
+   * @throws {RangeError} If the value is not a safe integer
+   */
+  svarint(value: bigint | number) {
+    if (typeof value === "number" && !Number.isSafeInteger(value)) {
+      throw new RangeError(`Invalid varint value: ${value}`)
+    }
+
+    let v = BigInt(value)
+
+    for (;;) {
+      const byte = Number(v & 0x7fn)
+      v >>= 7n
+
+      if ((v === 0n && !(byte & 0x40)) || (v === -1n && byte & 0x40)) {
+        return this.u8(byte)
+      }
+
+      this.u8(byte | 0x80)
+    }
+  }
+
+  /**
+   * Writes raw bytes.
+   * @param buf - The bytes to write
+   */
+  raw(buf: ArrayBuffer | ArrayBufferView) {
+    const bytes = toBytes(buf)
+    this.reserve(bytes.length).bytes.set(bytes, this.offset)
+    this.offset += bytes.length
+    return this
+  }
+
+  /**
+   * Writes a length-prefixed byte string.
+   * @param buf - The bytes to write
+   * @param prefix - How the length is written
+   */
+  lpBytes(buf: ArrayBuffer | ArrayBufferView, prefix: LengthPrefix = "varint") {
+    const bytes = toBytes(buf)
+    return this.length(bytes.length, prefix).raw(bytes)
+  }
+
+  /**
+   * Writes a length-prefixed UTF-8 string, encoded in place with `$text.intoBuffer`.
+   * @param text - The string to write
+   * @param prefix - How the byte length is written
+   */
+  string(text: string, prefix: LengthPrefix = "varint") {
+    // Encode after the widest possible prefix, then move the bytes up behind the actual prefix
+    const gap = prefix === "varint" ? MAX_VARINT_BYTES : PREFIX_SIZES[prefix]
+    const start = this.reserve(gap + text.length * 3).offset
+    const { written } = $text.intoBuffer(text, this.bytes.subarray(start + gap))
+
+    this.length(written, prefix)
+    this.bytes.copyWithin(this.offset, start + gap, start + gap + written)
+    this.offset += written
+    return this
+  }
+
+  /**
+   * Returns the bytes written so far, as a copy.
+   */
+  finish() {
+    return this.bytes.slice(0, this.offset)
+  }
+
+  private length(length: number, prefix: LengthPrefix) {
+    if (prefix === "varint") {
+      return this.varint(length)
+    }
+
+    if (length >= 2 ** (PREFIX_SIZES[prefix] * 8)) {
+      throw new RangeError(`Length ${length} does not fit in a ${prefix} prefix`)
+    }
+
+    return this[prefix](length)
+  }
+}
+
+/**
+ * Reads binary data from a buffer, with every read bounds-checked.
+ * Every read method advances the cursor.
+ *
+ * @example
+ * const reader = new BufferReader(bytes)
+ * reader.u8() // 1
+ * reader.u16() // 512
+ * reader.string() // "hello"
+ */
+export class BufferReader {
+  private bytes: Uint8Array
+  private view: DataView
+  /** The current read position */
+  offset = 0
+  readonly littleEndian: boolean
+
+  /**
+   * @param buf - The buffer to read, a view is read within its own window
+   * @param options - The default byte order
+   */
+  constructor(buf: ArrayBuffer | ArrayBufferView, options: CursorOptions = {}) {
+    this.bytes = toBytes(buf)
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength)
+    this.littleEndian = options.littleEndian ?? false
+  }
+
+  /** The number of bytes left to read */
+  get remaining() {
+    return this.bytes.length - this.offset
+  }
+
+  /**
+   * Moves the cursor forward.
+   * @param size - The number of bytes to skip
+   * @throws {RangeError} If that would move past the end of the buffer
+   */
+  skip(size: number) {
+    this.offset = this.take(size)
+    return this
+  }
+
+  u8() {
+    return this.view.getUint8(this.take(1) - 1)
+  }
+
+  i8() {
+    return this.view.getInt8(this.take(1) - 1)
+  }
+
+  u16(littleEndian = this.littleEndian) {
+    return this.view.getUint16(this.take(2) - 2, littleEndian)
+  }
+
+  i16(littleEndian = this.littleEndian) {
+    return this.view.getInt16(this.take(2) - 2, littleEndian)
+  }
+
+  u32(littleEndian = this.littleEndian) {
+    return this.view.getUint32(this.take(4) - 4, littleEndian)
+  }
+
+  i32(littleEndian = this.littleEndian) {
+    return this.view.getInt32(this.take(4) - 4, littleEndian)
+  }
+
+  u64(littleEndian = this.littleEndian) {
+    return this.view.getBigUint64(this.take(8) - 8, littleEndian)
+  }
+
+  i64(littleEndian = this.littleEndian) {
+    return this.view.getBigInt64(this.take(8) - 8, littleEndian)
+  }
+
+  f32(littleEndian = this.littleEndian) {
+    return this.view.getFloat32(this.take(4) - 4, littleEndian)
+  }
+
+  f64(littleEndian = this.littleEndian) {
+    return this.view.getFloat64(this.take(8) - 8, littleEndian)
+  }
+
+  /**
+   * Reads an unsigned LEB128 varint as a number.
+   * @throws {RangeError} If the varint runs past the end of the buffer, is too long, or is not a safe integer
+   */
+  varint() {
+    return safe(this.bigVarint())
+  }
+
+  /**
+   * Reads an unsigned LEB128 varint as a bigint.
+   * @throws {RangeError} If the varint runs past the end of the buffer or is too long
+   */
+  bigVarint() {
+    let value = 0n
+    let shift = 0n
+    let byte: number
+
+    do {
+      shift > 7n * BigInt(MAX_VARINT_BYTES - 1) && this.fail("Varint too long")
+      byte = this.u8()
+      value |= BigInt(byte & 0x7f) << shift
+      shift += 7n
+    } while (byte & 0x80)
+
+    return value
+  }
+
+  /**
+   * Reads a signed LEB128 varint as a number.
+   * @throws {RangeError} If the varint runs past the end of the buffer, is too long, or is not a safe integer
+   */
+  svarint() {
+    return safe(this.bigSvarint())
+  }
+
+  /**
+   * Reads a signed LEB128 varint as a bigint.
+   * @throws {RangeError} If the varint runs past the end of the buffer or is too long
+   */
+  bigSvarint() {
+    const start = this.offset
+    const value = this.bigVarint()
+    const bits = BigInt((this.offset - start) * 7)
+
+    // Sign-extend from the sign bit of the last byte
+    return this.bytes[this.offset - 1] & 0x40 ? value - (1n << bits) : value
+  }
+
+  /**
+   * Reads raw bytes, as a view into the underlying buffer.
+   * @param size - The number of bytes to read
+   */
+  raw(size: number) {
+    const end = this.take(size)
+    return this.bytes.subarray(end - size, end)
+  }
+
+  /**
+   * Reads a length-prefixed byte string, as a view into the underlying buffer.
+   * @param prefix - How the length was written
+   */
+  lpBytes(prefix: LengthPrefix = "varint") {
+    return this.raw(prefix === "varint" ? this.varint() : this[prefix]())
+  }
+
+  /**
+   * Reads a length-prefixed UTF-8 string. A leading byte order mark is kept, so strings round-trip.
+   * @param prefix - How the byte length was written
+   */
+  string(prefix: LengthPrefix = "varint") {
+    return $text.fromBuffer(this.lpBytes(prefix), "utf-8", { keepBOM: true })
+  }
+
+  // Bounds-checks a read of `size` bytes and returns the offset after it
+  private take(size: number) {
+    if (size < 0 || this.offset + size > this.bytes.length) {
+      this.fail(`Read of ${size} bytes at offset ${this.offset} exceeds buffer length ${this.bytes.length}`)
+    }
+
+    return (this.offset += size)
+  }
+
+  private fail(message: string): never {
+    throw new RangeError(message)
+  }
+}
+
+const PREFIX_SIZES = { u8: 1, u16: 2, u32: 4 } as const
+
+function safe(value: bigint) {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+    throw new RangeError(`Varint ${value} is not a safe integer`)
+  }
+
+  return Number(value)
+}
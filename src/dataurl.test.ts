@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest"
+import { formatContentType, parseDataUrl } from "./dataurl"
+import { DecodeError } from "./transcoders"
+
+
+describe("dataurl", () => {
+  describe("parseDataUrl", () => {
+    it("should parse a base64 data URL", () => {
+      const result = parseDataUrl("data:image/png;base64,AAEC")
+
+      expect(result).toEqual({ mimeType: "image/png", params: {}, isBase64: true, bytes: new Uint8Array([0, 1, 2]) })
+    })
+
+    it("should decode percent-encoded payloads to bytes", () => {
+      const result = parseDataUrl("data:text/plain;charset=utf-8,caf%C3%A9%20%ff")
+
+      expect(result.isBase64).toBe(false)
+      expect(Array.from(result.bytes)).toEqual([99, 97, 102, 0xc3, 0xa9, 0x20, 0xff])
+    })
+
+    it("should encode unescaped characters as UTF-8 and keep malformed escapes", () => {
+      expect(Array.from(parseDataUrl("data:,é%zz%4").bytes)).toEqual([0xc3, 0xa9, 0x25, 0x7a, 0x7a, 0x25, 0x34])
+    })
+
+    it("should default to text/plain;charset=US-ASCII", () => {
+      expect(parseDataUrl("data:,A%20brief%20note")).toMatchObject({ mimeType: "text/plain", params: { charset: "US-ASCII" } })
+      expect(parseDataUrl("data:;base64,dGVzdA==")).toMatchObject({ mimeType: "text/plain", params: { charset: "US-ASCII" }, isBase64: true })
+      expect(parseDataUrl("data:;charset=utf-8,x").params).toEqual({ charset: "utf-8" })
+    })
+
+    it("should keep arbitrary parameters", () => {
+      const result = parseDataUrl("data:Text/HTML;Charset=utf-8;name=\"my%20file.html\";BASE64,PGI+")
+
+      expect(result.mimeType).toBe("text/html")
+      expect(result.params).toEqual({ charset: "utf-8", name: "my file.html" })
+      expect(result.isBase64).toBe(true)
+      expect(Array.from(result.bytes)).toEqual([60, 98, 62])
+    })
+
+    it("should not treat a base64 parameter before other parameters as the encoding", () => {
+      const result = parseDataUrl("data:text/plain;base64;charset=utf-8,abc")
+
+      expect(result.isBase64).toBe(false)
+      expect(Array.from(result.bytes)).toEqual([97, 98, 99])
+    })
+
+    it("should accept whitespace and percent-encoding in base64 payloads", () => {
+      expect(Array.from(parseDataUrl("data:;base64,AA%3D%3D").bytes)).toEqual([0])
+      expect(Array.from(parseDataUrl("data:;base64,AA EC").bytes)).toEqual([0, 1, 2])
+    })
+
+    it("should throw for invalid data URLs and base64 payloads", () => {
+      expect(() => parseDataUrl("http://example.com")).toThrow("Invalid data URL")
+      expect(() => parseDataUrl("data:text/plain")).toThrow("Invalid data URL")
+      expect(() => parseDataUrl("data:;base64,A*B")).toThrow(DecodeError)
+    })
+  })
+
+  describe("formatContentType", () => {
+    it("should append parameters, quoting values that are not tokens", () => {
+      expect(formatContentType("text/plain")).toBe("text/plain")
+      expect(formatContentType("text/plain", { charset: "utf-8", name: "a b\"c" })).toBe("text/plain;charset=utf-8;name=\"a b\\\"c\"")
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { decode } from "./codecs"
+import { utf8 } from "./transcoders"
+
+/**
+ * The parts of an RFC 2397 data URL.
+ */
+export interface DataUrl {
+  /** The lowercased MIME type, `text/plain` when the URL omits it */
+  mimeType: string
+  /** The MIME parameters keyed by lowercased name, with `charset=US-ASCII` when the URL omits the MIME type and charset */
+  params: Record<string, string>
+  /** Whether the payload was base64 encoded */
+  isBase64: boolean
+  /** The decoded payload */
+  bytes: Uint8Array
+}
+
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+
+/**
+ * Parses an RFC 2397 data URL.
+ * Payloads can be base64 or percent-encoded, and parameters other than `base64` are kept.
+ * A URL without a MIME type defaults to `text/plain;charset=US-ASCII`.
+ *
+ * @param dataUrl - The data URL
+ * @returns The MIME type, parameters and decoded payload
+ * @throws {Error} If the string is not a data URL
+ * @throws {DecodeError} If a base64 payload is invalid
+ * @example
+ * parseDataUrl("data:text/plain;charset=utf-8,caf%C3%A9")
+ * // returns { mimeType: "text/plain", params: { charset: "utf-8" }, isBase64: false, bytes: Uint8Array([99, 97, 102, 195, 169]) }
+ */
+export function parseDataUrl(dataUrl: string): DataUrl {
+  const comma = dataUrl.indexOf(",")
+
+  if (!/^data:/i.test(dataUrl) || comma === -1) {
+    throw new Error("Invalid data URL")
+  }
+
+  const [type, ...parts] = dataUrl.slice(5, comma).split(";").map(part => part.trim())
+  const isBase64 = parts.length > 0 && parts[parts.length - 1].toLowerCase() === "base64"
+  const params: Record<string, string> = {}
+
+  isBase64 && parts.pop()
+
+  for (const part of parts) {
+    const eq = part.indexOf("=")
+
+    // Parameters without a value are ignored, as browsers do
+    if (eq > 0) {
+      const value = percentDecode(part.slice(eq + 1))
+      params[part.slice(0, eq).trim().toLowerCase()] = utf8.decode(value).replace(/^"(.*)"$/, "$1")
+    }
+  }
+
+  if (!type) {
+    params.charset ??= "US-ASCII"
+  }
+
+  const payload = percentDecode(dataUrl.slice(comma + 1))
+
+  return {
+    mimeType: type ? type.toLowerCase() : "text/plain",
+    params,
+    isBase64,
+    bytes: isBase64 ? decode(utf8.decode(payload), "base64", "lenient") : payload,
+  }
+}
+
+/**
+ * Formats a MIME type and its parameters as a content type, e.g. for a Blob type.
+ *
+ * @param mimeType - The MIME type
+ * @param params - The MIME parameters
+ * @returns The content type
+ * @example
+ * formatContentType("text/plain", { charset: "utf-8" }) // returns "text/plain;charset=utf-8"
+ */
+export function formatContentType(mimeType: string, params: Record<string, string> = {}) {
+  return Object.entries(params).reduce(
+    (type, [name, value]) => `${type};${name}=${TOKEN.test(value) ? value : `"${value.replace(/["\\]/g, "\\$&")}"`}`,
+    mimeType,
+  )
+}
+
+// Decodes %XX escapes to bytes, and everything else to UTF-8. Malformed escapes are kept as is.
+function percentDecode(text: string) {
+  if (!text.includes("%")) {
+    return utf8.encode(text)
+  }
+
+  const bytes: number[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+
+    if (c === "%" && /^[0-9a-fA-F]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16))
+      i += 2
+    } else if (c.charCodeAt(0) < 0x80) {
+      bytes.push(c.charCodeAt(0))
+    } else {
+      const cp = text.codePointAt(i)!
+      bytes.push(...utf8.encode(String.fromCodePoint(cp)))
+      cp > 0xffff && i++
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
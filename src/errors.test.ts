@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import { AbortError, AggregateFailure, RetryError, TimeoutError, toAbortError, toError } from "./errors"
+
+
+describe("errors", () => {
+  describe("toError", () => {
+    it("should return Errors as is", () => {
+      const error = new TypeError("bad")
+
+      expect(toError(error)).toBe(error)
+    })
+
+    it("should wrap other values, keeping them as the cause", () => {
+      const error = toError("bad")
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error.message).toBe("bad")
+      expect(error.cause).toBe("bad")
+      expect(toError(42).message).toBe("42")
+      expect(toError(undefined).message).toBe("undefined")
+    })
+
+    it("should take the message and name of error-like objects", () => {
+      const error = toError({ name: "HttpError", message: "Not found", status: 404 })
+
+      expect(error.name).toBe("HttpError")
+      expect(error.message).toBe("Not found")
+      expect(error.cause).toEqual({ name: "HttpError", message: "Not found", status: 404 })
+    })
+
+    it("should describe other objects", () => {
+      const circular: Record<string, unknown> = {}
+      circular.self = circular
+
+      expect(toError({ status: 404 }).message).toBe('{"status":404}')
+      expect(toError(circular).message).toBe("[object Object]")
+      expect(toError(null).message).toBe("null")
+    })
+  })
+
+  describe("toAbortError", () => {
+    it("should wrap a signal's reason", () => {
+      const reason = AbortSignal.abort().reason
+      const error = toAbortError(reason)
+
+      expect(error).toBeInstanceOf(AbortError)
+      expect(error.message).toBe(reason.message)
+      expect(error.cause).toBe(reason)
+      expect(toAbortError("stop")).toMatchObject({ message: "The operation was aborted", cause: "stop" })
+    })
+
+    it("should turn a timeout into a TimeoutError", () => {
+      const reason = new DOMException("Signal timed out", "TimeoutError")
+
+      expect(toAbortError(reason)).toBeInstanceOf(TimeoutError)
+      expect(toAbortError(reason).cause).toBe(reason)
+    })
+
+    it("should return AbortErrors and TimeoutErrors as is", () => {
+      const abort = new AbortError()
+      const timeout = new TimeoutError(10)
+
+      expect(toAbortError(abort)).toBe(abort)
+      expect(toAbortError(timeout)).toBe(timeout)
+    })
+  })
+
+  describe("RetryError", () => {
+    it("should keep every error, with the last as the cause", () => {
+      const errors = [new Error("1"), new Error("2")]
+      const error = new RetryError(errors)
+
+      expect(error.name).toBe("RetryError")
+      expect(error.message).toBe("Failed after 2 attempts")
+      expect(error.attempts).toBe(2)
+      expect(error.errors).toBe(errors)
+      expect(error.cause).toBe(errors[1])
+      expect(new RetryError(["once"]).message).toBe("Failed after 1 attempt")
+    })
+  })
+
+  describe("AggregateFailure", () => {
+    it("should normalize its errors", () => {
+      const error = new Error("1")
+      const failure = new AggregateFailure(new Set([error, "2"]), "Both failed")
+
+      expect(failure).toBeInstanceOf(AggregateError)
+      expect(failure.name).toBe("AggregateFailure")
+      expect(failure.message).toBe("Both failed")
+      expect(failure.errors[0]).toBe(error)
+      expect(failure.errors[1]).toEqual(new Error("2"))
+    })
+  })
+})
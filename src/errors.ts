@@ -0,0 +1,126 @@
+/**
+ * Rejected with when an operation doesn't finish in time.
+ */
+export class TimeoutError extends Error {
+  name = "TimeoutError"
+
+  /**
+   * @param ms - The timeout in milliseconds, if known
+   * @param options - The cause
+   */
+  constructor(readonly ms?: number, options?: ErrorOptions) {
+    super(ms === undefined ? "The operation timed out" : `Timed out after ${ms}ms`, options)
+  }
+}
+
+/**
+ * Rejected with when an operation is aborted by an AbortSignal.
+ * The signal's reason is kept as the `cause`.
+ */
+export class AbortError extends Error {
+  name = "AbortError"
+
+  /**
+   * @param message - The error message
+   * @param options - The cause, usually the signal's reason
+   */
+  constructor(message = "The operation was aborted", options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+/**
+ * Thrown by `retry` when every attempt allowed has failed.
+ * The last attempt's error is the `cause`.
+ */
+export class RetryError extends Error {
+  name = "RetryError"
+
+  /**
+   * @param errors - The error from each attempt, in order
+   */
+  constructor(readonly errors: unknown[]) {
+    super(`Failed after ${errors.length} attempt${errors.length === 1 ? "" : "s"}`, { cause: errors[errors.length - 1] })
+  }
+
+  /** The number of attempts made */
+  get attempts() {
+    return this.errors.length
+  }
+}
+
+/**
+ * An AggregateError whose errors are normalized with `toError`.
+ */
+export class AggregateFailure extends AggregateError {
+  name = "AggregateFailure"
+  declare errors: Error[]
+
+  /**
+   * @param errors - The errors, normalized with `toError`
+   * @param message - The error message
+   * @param options - The cause
+   */
+  constructor(errors: Iterable<unknown>, message?: string, options?: ErrorOptions) {
+    super(Array.from(errors, toError), message, options)
+  }
+}
+
+/**
+ * Normalizes a thrown or rejected value to an Error.
+ * Errors are returned as is. Anything else is wrapped in an Error whose `cause` is the original value,
+ * taking the message and name of error-like objects.
+ *
+ * @param value - The thrown or rejected value
+ * @returns An Error
+ * @example
+ * toError("oops") // returns Error("oops") with the cause "oops"
+ * toError({ message: "Not found", status: 404 }).message // returns "Not found"
+ */
+export function toError(value: unknown): Error {
+  if (value instanceof Error) {
+    return value
+  }
+
+  const { message, name } = (typeof value === "object" && value !== null ? value : {}) as { message?: unknown, name?: unknown }
+  const error = new Error(typeof message === "string" ? message : describe(value), { cause: value })
+
+  if (typeof name === "string" && name) {
+    error.name = name
+  }
+
+  return error
+}
+
+/**
+ * Normalizes an AbortSignal's reason to an `AbortError`, or a `TimeoutError` for `AbortSignal.timeout`.
+ * Reasons that already are one are returned as is, and others become the `cause`.
+ *
+ * @param reason - The signal's reason
+ * @returns An AbortError or TimeoutError
+ * @example
+ * toAbortError(AbortSignal.abort().reason) // returns an AbortError
+ */
+export function toAbortError(reason: unknown): AbortError | TimeoutError {
+  if (reason instanceof AbortError || reason instanceof TimeoutError) {
+    return reason
+  }
+
+  if (reason instanceof Error && reason.name === "TimeoutError") {
+    return new TimeoutError(undefined, { cause: reason })
+  }
+
+  return new AbortError(reason instanceof Error ? reason.message : undefined, { cause: reason })
+}
+
+function describe(value: unknown) {
+  if (typeof value === "object" && value !== null) {
+    try {
+      return JSON.stringify(value) ?? String(value)
+    } catch {
+      // Circular structures, BigInts and the like
+    }
+  }
+
+  return String(value)
+}
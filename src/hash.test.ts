@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest"
+import { checksum, checksumStream, createHasher, digest, type ChecksumAlgorithm } from "./hash"
+
+
+describe("hash", () => {
+  const utf8 = (text: string) => new TextEncoder().encode(text)
+  const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("")
+
+  describe("digest", () => {
+    it("should hash with WebCrypto", async () => {
+      expect(hex(await digest(utf8("abc")))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad")
+      expect(hex(await digest(utf8("abc"), "SHA-1"))).toBe("a9993e364706816aba3e25717850c26c9cd0d89d")
+    })
+
+    it("should hash only the window of a view", async () => {
+      const backing = utf8("xxabcxx")
+
+      expect(await digest(backing.subarray(2, 5))).toEqual(await digest(utf8("abc")))
+    })
+  })
+
+  describe("checksum", () => {
+    it("should compute CRC32", () => {
+      expect(checksum(utf8("123456789"), "crc32")).toBe(0xcbf43926)
+      expect(checksum(utf8(""), "crc32")).toBe(0)
+    })
+
+    it("should compute Adler-32", () => {
+      expect(checksum(utf8("Wikipedia"), "adler32")).toBe(0x11e60398)
+      expect(checksum(utf8(""), "adler32")).toBe(1)
+    })
+
+    it("should compute FNV-1a", () => {
+      expect(checksum(utf8(""), "fnv1a")).toBe(0x811c9dc5)
+      expect(checksum(utf8("a"), "fnv1a")).toBe(0xe40c292c)
+      expect(checksum(utf8("foobar"), "fnv1a")).toBe(0xbf9cf968)
+    })
+
+    it("should compute xxHash32", () => {
+      expect(checksum(utf8(""), "xxh32")).toBe(0x02cc5d05)
+      expect(checksum(utf8("a"), "xxh32")).toBe(0x550d7456)
+      expect(checksum(utf8("abc"), "xxh32")).toBe(0x32d153ff)
+      expect(checksum(utf8("Nobody inspects the spammish repetition"), "xxh32")).toBe(0xe2293b2f)
+    })
+
+    it("should not overflow Adler-32 sums on large inputs", () => {
+      const big = new Uint8Array(100000).fill(0xff)
+      let a = 1, b = 0
+
+      for (const byte of big) {
+        a = (a + byte) % 65521
+        b = (b + a) % 65521
+      }
+
+      expect(checksum(big, "adler32")).toBe(((b << 16) | a) >>> 0)
+    })
+  })
+
+  describe("createHasher", () => {
+    const data = new Uint8Array(1000).map((_, i) => (i * 31) % 256)
+
+    it.each<ChecksumAlgorithm>(["crc32", "adler32", "fnv1a", "xxh32"])("should match the one-shot %s checksum for any chunking", (algorithm) => {
+      const expected = checksum(data, algorithm)
+
+      for (const size of [1, 3, 15, 16, 17, 333]) {
+        const hasher = createHasher(algorithm)
+
+        for (let i = 0; i < data.length; i += size) {
+          hasher.update(data.subarray(i, i + size))
+        }
+
+        expect(hasher.digest()).toBe(expected)
+      }
+    })
+
+    it("should format the digest as hex", () => {
+      expect(createHasher("crc32").update(utf8("123456789")).hexDigest()).toBe("cbf43926")
+      expect(createHasher("adler32").hexDigest()).toBe("00000001")
+    })
+
+    it("should seed xxHash32", () => {
+      expect(createHasher("xxh32", 1).update(utf8("abc")).digest()).not.toBe(checksum(utf8("abc"), "xxh32"))
+    })
+  })
+
+  describe("checksumStream", () => {
+    it("should checksum a stream chunk by chunk", async () => {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(utf8("1234"))
+          controller.enqueue(utf8("56789"))
+          controller.close()
+        },
+      })
+
+      expect(await checksumStream(stream, "crc32")).toBe(0xcbf43926)
+    })
+  })
+})
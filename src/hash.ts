@@ -0,0 +1,249 @@
+import { toBytes } from "./transcoders"
+
+/**
+ * The cryptographic hash algorithms supported by WebCrypto's `digest`.
+ */
+export type DigestAlgorithm = "SHA-1" | "SHA-256" | "SHA-384" | "SHA-512"
+
+/**
+ * The fast, non-cryptographic 32-bit checksums.
+ */
+export type ChecksumAlgorithm = "crc32" | "adler32" | "fnv1a" | "xxh32"
+
+/**
+ * An incremental checksum, fed one chunk at a time.
+ */
+export interface Hasher {
+  readonly algorithm: ChecksumAlgorithm
+  /** Adds a chunk of data */
+  update(chunk: ArrayBuffer | ArrayBufferView): this
+  /** Returns the checksum of all the data so far, as an unsigned 32-bit integer */
+  digest(): number
+  /** Returns the checksum of all the data so far, as 8 hexadecimal digits */
+  hexDigest(): string
+}
+
+/**
+ * Hashes data with WebCrypto.
+ *
+ * @param buf - The data to hash
+ * @param algorithm - The hash algorithm
+ * @returns A promise resolving to the hash bytes
+ * @example
+ * await digest(new TextEncoder().encode("abc"), "SHA-256")
+ */
+export async function digest(buf: ArrayBuffer | ArrayBufferView, algorithm: DigestAlgorithm = "SHA-256") {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, toBytes(buf)))
+}
+
+/**
+ * Creates an incremental hasher for a checksum algorithm.
+ *
+ * @param algorithm - The checksum algorithm
+ * @param seed - The seed, used by `xxh32` only
+ * @returns The hasher
+ * @example
+ * const hasher = createHasher("crc32")
+ * hasher.update(part1).update(part2)
+ * hasher.hexDigest() // "cbf43926"
+ */
+export function createHasher(algorithm: ChecksumAlgorithm, seed = 0): Hasher {
+  const state = checksums[algorithm](seed)
+
+  return {
+    algorithm,
+    update(chunk) {
+      state.update(toBytes(chunk))
+      return this
+    },
+    digest: () => state.digest() >>> 0,
+    hexDigest() {
+      return this.digest().toString(16).padStart(8, "0")
+    },
+  }
+}
+
+/**
+ * Computes a checksum of a buffer in one go.
+ *
+ * @param buf - The data to checksum
+ * @param algorithm - The checksum algorithm
+ * @returns The checksum, as an unsigned 32-bit integer
+ * @example
+ * checksum(new TextEncoder().encode("123456789"), "crc32") // returns 0xcbf43926
+ */
+export function checksum(buf: ArrayBuffer | ArrayBufferView, algorithm: ChecksumAlgorithm) {
+  return createHasher(algorithm).update(buf).digest()
+}
+
+/**
+ * Computes a checksum of a stream chunk by chunk, without holding the whole stream in memory.
+ *
+ * @param stream - The stream of bytes to checksum
+ * @param algorithm - The checksum algorithm
+ * @returns A promise resolving to the checksum, as an unsigned 32-bit integer
+ * @example
+ * await checksumStream(blob.stream(), "xxh32")
+ */
+export async function checksumStream(stream: ReadableStream<ArrayBuffer | ArrayBufferView>, algorithm: ChecksumAlgorithm) {
+  const hasher = createHasher(algorithm)
+  const reader = stream.getReader()
+
+  try {
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      hasher.update(r.value)
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  return hasher.digest()
+}
+
+interface ChecksumState {
+  update(bytes: Uint8Array): void
+  digest(): number
+}
+
+const CRC32_TABLE = new Uint32Array(256)
+
+for (let n = 0; n < 256; n++) {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  CRC32_TABLE[n] = c
+}
+
+const ADLER_MOD = 65521
+// The most bytes that can be summed before the 32-bit sums could overflow
+const ADLER_NMAX = 5552
+
+const XXH_P1 = 0x9e3779b1
+const XXH_P2 = 0x85ebca77
+const XXH_P3 = 0xc2b2ae3d
+const XXH_P4 = 0x27d4eb2f
+const XXH_P5 = 0x165667b1
+
+const checksums: Record<ChecksumAlgorithm, (seed: number) => ChecksumState> = {
+  crc32() {
+    let crc = 0xffffffff
+
+    return {
+      update(bytes) {
+        for (let i = 0; i < bytes.length; i++) {
+          crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+        }
+      },
+      digest: () => ~crc,
+    }
+  },
+
+  adler32() {
+    let a = 1
+    let b = 0
+
+    return {
+      update(bytes) {
+        for (let i = 0; i < bytes.length;) {
+          const end = Math.min(i + ADLER_NMAX, bytes.length)
+
+          for (; i < end; i++) {
+            a += bytes[i]
+            b += a
+          }
+
+          a %= ADLER_MOD
+          b %= ADLER_MOD
+        }
+      },
+      digest: () => (b << 16) | a,
+    }
+  },
+
+  fnv1a() {
+    let h = 0x811c9dc5
+
+    return {
+      update(bytes) {
+        for (let i = 0; i < bytes.length; i++) {
+          h = Math.imul(h ^ bytes[i], 0x01000193)
+        }
+      },
+      digest: () => h,
+    }
+  },
+
+  xxh32(seed) {
+    const acc = [seed + XXH_P1 + XXH_P2, seed + XXH_P2, seed, seed - XXH_P1]
+    // Bytes left over from the last update that don't fill a 16-byte stripe
+    const pending = new Uint8Array(16)
+    let pendingSize = 0
+    let total = 0
+
+    const stripe = (bytes: Uint8Array, i: number) => {
+      for (let lane = 0; lane < 4; lane++, i += 4) {
+        acc[lane] = xxhRound(acc[lane], readU32(bytes, i))
+      }
+    }
+
+    return {
+      update(bytes) {
+        let i = 0
+        total += bytes.length
+
+        if (pendingSize > 0) {
+          i = Math.min(16 - pendingSize, bytes.length)
+          pending.set(bytes.subarray(0, i), pendingSize)
+          pendingSize += i
+
+          if (pendingSize < 16) {
+            return
+          }
+
+          stripe(pending, 0)
+          pendingSize = 0
+        }
+
+        for (; i + 16 <= bytes.length; i += 16) {
+          stripe(bytes, i)
+        }
+
+        pending.set(bytes.subarray(i))
+        pendingSize = bytes.length - i
+      },
+      digest() {
+        let h = total >= 16
+          ? rotl(acc[0], 1) + rotl(acc[1], 7) + rotl(acc[2], 12) + rotl(acc[3], 18)
+          : seed + XXH_P5
+        h = (h + total) | 0
+
+        let i = 0
+
+        for (; i + 4 <= pendingSize; i += 4) {
+          h = Math.imul(rotl(h + Math.imul(readU32(pending, i), XXH_P3), 17), XXH_P4)
+        }
+
+        for (; i < pendingSize; i++) {
+          h = Math.imul(rotl(h + Math.imul(pending[i], XXH_P5), 11), XXH_P1)
+        }
+
+        h = Math.imul(h ^ (h >>> 15), XXH_P2)
+        h = Math.imul(h ^ (h >>> 13), XXH_P3)
+        return h ^ (h >>> 16)
+      },
+    }
+  },
+}
+
+function xxhRound(acc: number, input: number) {
+  return Math.imul(rotl(acc + Math.imul(input, XXH_P2), 13), XXH_P1)
+}
+
+function rotl(x: number, r: number) {
+  return (x << r) | (x >>> (32 - r))
+}
+
+function readU32(bytes: Uint8Array, i: number) {
+  return bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16) | (bytes[i + 3] << 24)
+}
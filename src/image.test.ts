@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest"
+import { blob } from "./blob"
+import { fitImage, imageSize, resizeImage, toImageBitmap } from "./image"
+
+
+describe("image", () => {
+  const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0))
+  const u16be = (n: number) => [n >> 8, n & 0xff]
+  const u16le = (n: number) => [n & 0xff, n >> 8]
+  const u32be = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+  const u32le = (n: number) => u32be(n).reverse()
+
+  const png = (width: number, height: number) => new Uint8Array([
+    0x89, ...ascii("PNG\r\n\x1a\n"), ...u32be(13), ...ascii("IHDR"), ...u32be(width), ...u32be(height), 8, 6, 0, 0, 0,
+  ])
+
+  const gif = (width: number, height: number) => new Uint8Array([...ascii("GIF89a"), ...u16le(width), ...u16le(height), 0, 0, 0])
+
+  const webp = (chunk: string, payload: number[]) => new Uint8Array([
+    ...ascii("RIFF"), ...u32le(4 + 8 + payload.length), ...ascii("WEBP"), ...ascii(chunk), ...u32le(payload.length), ...payload,
+  ])
+
+  const segment = (marker: number, payload: number[]) => [0xff, marker, ...u16be(payload.length + 2), ...payload]
+
+  const jpeg = (width: number, height: number, before: number[] = []) => new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe0, [...ascii("JFIF\0"), 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...before,
+    ...segment(0xdb, new Array(65).fill(1)),
+    ...segment(0xc0, [8, ...u16be(height), ...u16be(width), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]),
+    ...segment(0xda, [1, 1, 0, 0, 63, 0]),
+    0xff, 0xd9,
+  ])
+
+  describe("imageSize", () => {
+    it("should read PNG dimensions", () => {
+      expect(imageSize(png(640, 480))).toEqual({ type: "image/png", width: 640, height: 480 })
+      expect(imageSize(png(70000, 1))).toEqual({ type: "image/png", width: 70000, height: 1 })
+    })
+
+    it("should read GIF dimensions", () => {
+      expect(imageSize(gif(320, 200))).toEqual({ type: "image/gif", width: 320, height: 200 })
+    })
+
+    it("should read JPEG dimensions from the frame header", () => {
+      expect(imageSize(jpeg(1920, 1080))).toEqual({ type: "image/jpeg", width: 1920, height: 1080 })
+    })
+
+    it("should skip metadata segments and fill bytes before the JPEG frame header", () => {
+      const exif = segment(0xe1, [...ascii("Exif\0\0"), ...new Array(2000).fill(0)])
+      expect(imageSize(jpeg(800, 600, [...exif, 0xff]))).toEqual({ type: "image/jpeg", width: 800, height: 600 })
+    })
+
+    it("should read progressive JPEG dimensions", () => {
+      const bytes = jpeg(100, 50)
+      bytes[bytes.indexOf(0xc0, 2)] = 0xc2
+      expect(imageSize(bytes)).toEqual({ type: "image/jpeg", width: 100, height: 50 })
+    })
+
+    it("should read lossy WebP dimensions", () => {
+      const payload = [0x30, 0x01, 0x00, 0x9d, 0x01, 0x2a, ...u16le(400), ...u16le(300), 0, 0]
+      expect(imageSize(webp("VP8 ", payload))).toEqual({ type: "image/webp", width: 400, height: 300 })
+    })
+
+    it("should read lossless WebP dimensions", () => {
+      const bits = (1023 - 1) | ((767 - 1) << 14)
+      expect(imageSize(webp("VP8L", [0x2f, ...u32le(bits)]))).toEqual({ type: "image/webp", width: 1023, height: 767 })
+    })
+
+    it("should read extended WebP dimensions", () => {
+      const u24le = (n: number) => [n & 0xff, (n >> 8) & 0xff, n >> 16]
+      const payload = [0x10, 0, 0, 0, ...u24le(5000 - 1), ...u24le(20000 - 1)]
+      expect(imageSize(webp("VP8X", payload))).toEqual({ type: "image/webp", width: 5000, height: 20000 })
+    })
+
+    it("should return undefined for truncated headers", () => {
+      expect(imageSize(png(640, 480).subarray(0, 20))).toBeUndefined()
+      expect(imageSize(jpeg(800, 600).subarray(0, 30))).toBeUndefined()
+    })
+
+    it("should return undefined for other formats", () => {
+      expect(imageSize(new TextEncoder().encode("%PDF-1.7"))).toBeUndefined()
+      expect(imageSize(new Uint8Array(0))).toBeUndefined()
+    })
+
+    it("should respect view windows", () => {
+      const bytes = png(16, 9)
+      const padded = new Uint8Array(bytes.length + 4)
+      padded.set(bytes, 4)
+      expect(imageSize(padded.subarray(4))).toEqual({ type: "image/png", width: 16, height: 9 })
+    })
+  })
+
+  describe("blob.imageSize", () => {
+    it("should read the size from the start of a blob", async () => {
+      expect(await blob.imageSize(new Blob([png(64, 32), new Uint8Array(100_000)]))).toEqual({ type: "image/png", width: 64, height: 32 })
+    })
+
+    it("should read the whole JPEG when the frame header is past the first bytes", async () => {
+      const padding = Array.from({ length: 3 }, () => segment(0xe2, new Array(60_000).fill(0))).flat()
+      const file = new Blob([jpeg(300, 200, padding)], { type: "image/jpeg" })
+
+      expect(await blob.imageSize(file)).toEqual({ type: "image/jpeg", width: 300, height: 200 })
+    })
+
+    it("should return undefined for other blobs", async () => {
+      expect(await blob.imageSize(new Blob(["hello"]))).toBeUndefined()
+    })
+  })
+
+  describe("fitImage", () => {
+    it("should contain the image in the box, keeping its aspect ratio", () => {
+      expect(fitImage(1600, 900, { maxWidth: 800, maxHeight: 800 })).toEqual({ sx: 0, sy: 0, sw: 1600, sh: 900, width: 800, height: 450 })
+      expect(fitImage(900, 1600, { maxWidth: 800, maxHeight: 800 })).toEqual({ sx: 0, sy: 0, sw: 900, sh: 1600, width: 450, height: 800 })
+    })
+
+    it("should not scale images up", () => {
+      expect(fitImage(100, 50, { maxWidth: 800, maxHeight: 800 })).toEqual({ sx: 0, sy: 0, sw: 100, sh: 50, width: 100, height: 50 })
+    })
+
+    it("should default the box to the image size", () => {
+      expect(fitImage(100, 50, { maxWidth: 20 })).toEqual({ sx: 0, sy: 0, sw: 100, sh: 50, width: 20, height: 10 })
+    })
+
+    it("should crop the centre of the image to cover the box", () => {
+      expect(fitImage(1600, 900, { maxWidth: 128, maxHeight: 128, fit: "cover" })).toEqual({ sx: 350, sy: 0, sw: 900, sh: 900, width: 128, height: 128 })
+      expect(fitImage(900, 1600, { maxWidth: 200, maxHeight: 100, fit: "cover" })).toEqual({ sx: 0, sy: 575, sw: 900, sh: 450, width: 200, height: 100 })
+    })
+
+    it("should stretch the image to fill the box", () => {
+      expect(fitImage(1600, 900, { maxWidth: 100, maxHeight: 100, fit: "fill" })).toEqual({ sx: 0, sy: 0, sw: 1600, sh: 900, width: 100, height: 100 })
+    })
+
+    it("should throw for an empty box", () => {
+      expect(() => fitImage(100, 100, { maxWidth: 0 })).toThrow(RangeError)
+    })
+  })
+
+  describe("without canvas support", () => {
+    it("should reject decoding when createImageBitmap is unavailable", async () => {
+      await expect(toImageBitmap(new Blob([png(1, 1)]))).rejects.toThrow("createImageBitmap")
+    })
+
+    it("should reject resizing when OffscreenCanvas is unavailable", async () => {
+      await expect(resizeImage(new Blob([png(1, 1)]))).rejects.toThrow("OffscreenCanvas")
+      await expect(blob.thumbnailDataUrl(new Blob([png(1, 1)]))).rejects.toThrow("OffscreenCanvas")
+    })
+  })
+})
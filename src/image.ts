@@ -0,0 +1,228 @@
+import { sniffType } from "./sniff"
+import { toBytes } from "./transcoders"
+
+/**
+ * How many leading bytes `blob.imageSize` reads first. JPEGs whose frame header comes later are read in full.
+ */
+export const IMAGE_HEADER_LENGTH = 64 * 1024
+
+/**
+ * The intrinsic size of an image, read from its header.
+ */
+export interface ImageSize {
+  /** The MIME type of the image */
+  type: string
+  /** The width in pixels */
+  width: number
+  /** The height in pixels */
+  height: number
+}
+
+/**
+ * How an image is fitted to a box:
+ * `contain` scales it to fit inside, `cover` scales it to fill the box and crops the overflow,
+ * and `fill` stretches it to the box.
+ */
+export type ImageFit = "contain" | "cover" | "fill"
+
+export interface ResizeImageOptions {
+  /** The largest width, defaults to the image width */
+  maxWidth?: number
+  /** The largest height, defaults to the image height */
+  maxHeight?: number
+  /** How the image is fitted to the box, defaults to `contain` */
+  fit?: ImageFit
+  /** The output MIME type, defaults to the input type if browsers can encode it, otherwise `image/png` */
+  type?: string
+  /** The quality from 0 to 1, for lossy types */
+  quality?: number
+}
+
+/**
+ * Where to draw an image, as the source rectangle to crop and the output size.
+ */
+export interface ImageFitting {
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+  width: number
+  height: number
+}
+
+// The types canvases can encode everywhere
+const ENCODABLE_TYPES = ["image/png", "image/jpeg", "image/webp"]
+
+/**
+ * Reads the intrinsic size of a PNG, JPEG, GIF or WebP image from its header, without decoding it.
+ *
+ * @param buf - The image, or at least its header
+ * @returns The type and size, or undefined if the format is not recognised or the header is incomplete
+ * @example
+ * imageSize(await blob.readRange(file, 0, 1024)) // returns e.g. { type: "image/png", width: 640, height: 480 }
+ */
+export function imageSize(buf: ArrayBuffer | ArrayBufferView): ImageSize | undefined {
+  const bytes = toBytes(buf)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const type = sniffType(bytes)
+  const size = (width: number, height: number): ImageSize => ({ type: type!, width, height })
+
+  switch (type) {
+    case "image/png":
+      // The IHDR chunk always comes first
+      return bytes.length >= 24 ? size(view.getUint32(16), view.getUint32(20)) : undefined
+
+    case "image/gif":
+      return bytes.length >= 10 ? size(view.getUint16(6, true), view.getUint16(8, true)) : undefined
+
+    case "image/webp":
+      return webpSize(bytes, view, size)
+
+    case "image/jpeg":
+      return jpegSize(bytes, view, size)
+  }
+}
+
+function webpSize(bytes: Uint8Array, view: DataView, size: (width: number, height: number) => ImageSize) {
+  const chunk = String.fromCharCode(...bytes.subarray(12, 16))
+
+  if (chunk === "VP8 " && bytes.length >= 30) {
+    // Lossy, with 14-bit dimensions after the frame tag and start code
+    return size(view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff)
+  }
+
+  if (chunk === "VP8L" && bytes.length >= 25) {
+    // Lossless, with 14-bit dimensions less one packed after the signature byte
+    const bits = view.getUint32(21, true)
+    return size((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1)
+  }
+
+  if (chunk === "VP8X" && bytes.length >= 30) {
+    // Extended, with 24-bit canvas dimensions less one
+    const u24 = (i: number) => bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16)
+    return size(u24(24) + 1, u24(27) + 1)
+  }
+}
+
+function jpegSize(bytes: Uint8Array, view: DataView, size: (width: number, height: number) => ImageSize) {
+  let i = 2
+
+  while (i + 4 <= bytes.length) {
+    if (bytes[i] !== 0xff) {
+      return
+    }
+
+    const marker = bytes[i + 1]
+
+    // Fill bytes, and markers without a segment
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += marker === 0xff ? 1 : 2
+      continue
+    }
+
+    // Start of frame markers, except DHT, JPG and DAC which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return i + 9 <= bytes.length ? size(view.getUint16(i + 7), view.getUint16(i + 5)) : undefined
+    }
+
+    i += 2 + view.getUint16(i + 2)
+  }
+}
+
+/**
+ * Works out how to fit an image into a box. Images are never scaled up.
+ *
+ * @param width - The image width
+ * @param height - The image height
+ * @param options - The box and fit
+ * @returns The source rectangle and the output size, rounded to whole pixels
+ * @example
+ * fitImage(1600, 900, { maxWidth: 800, maxHeight: 800 }) // returns { sx: 0, sy: 0, sw: 1600, sh: 900, width: 800, height: 450 }
+ */
+export function fitImage(width: number, height: number, options: Pick<ResizeImageOptions, "maxWidth" | "maxHeight" | "fit"> = {}): ImageFitting {
+  const { maxWidth = width, maxHeight = height, fit = "contain" } = options
+  const full = { sx: 0, sy: 0, sw: width, sh: height }
+
+  if (!(maxWidth > 0 && maxHeight > 0)) {
+    throw new RangeError(`Invalid image box: ${maxWidth}x${maxHeight}`)
+  }
+
+  if (fit === "fill") {
+    return { ...full, width: Math.round(Math.min(maxWidth, width)), height: Math.round(Math.min(maxHeight, height)) }
+  }
+
+  if (fit === "contain") {
+    const scale = Math.min(1, maxWidth / width, maxHeight / height)
+    return { ...full, width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+  }
+
+  // Cover crops the centre of the image to the box's aspect ratio
+  const boxWidth = Math.min(maxWidth, width)
+  const boxHeight = Math.min(maxHeight, height)
+  const scale = Math.max(boxWidth / width, boxHeight / height)
+  const sw = Math.round(boxWidth / scale)
+  const sh = Math.round(boxHeight / scale)
+
+  return {
+    sx: Math.round((width - sw) / 2),
+    sy: Math.round((height - sh) / 2),
+    sw,
+    sh,
+    width: Math.round(boxWidth),
+    height: Math.round(boxHeight),
+  }
+}
+
+/**
+ * Decodes an image with `createImageBitmap`.
+ *
+ * @param blob - The image
+ * @param options - Options for `createImageBitmap`
+ * @returns A promise resolving to the bitmap, which should be closed when no longer needed
+ * @throws {Error} If `createImageBitmap` is unavailable
+ * @example
+ * const bitmap = await toImageBitmap(file)
+ */
+export async function toImageBitmap(blob: Blob, options?: ImageBitmapOptions) {
+  if (typeof createImageBitmap !== "function") {
+    throw new Error("Image decoding needs createImageBitmap, which is unavailable in this environment")
+  }
+
+  return createImageBitmap(blob, options)
+}
+
+/**
+ * Resizes an image with an `OffscreenCanvas`.
+ *
+ * @param blob - The image
+ * @param options - The box, fit, output type and quality
+ * @returns A promise resolving to the resized image
+ * @throws {Error} If `createImageBitmap` or `OffscreenCanvas` is unavailable
+ * @example
+ * await resizeImage(file, { maxWidth: 1024, maxHeight: 1024, type: "image/jpeg", quality: 0.8 })
+ */
+export async function resizeImage(blob: Blob, options: ResizeImageOptions = {}) {
+  if (typeof OffscreenCanvas !== "function") {
+    throw new Error("Image resizing needs OffscreenCanvas, which is unavailable in this environment")
+  }
+
+  const bitmap = await toImageBitmap(blob)
+
+  try {
+    const { sx, sy, sw, sh, width, height } = fitImage(bitmap.width, bitmap.height, options)
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext("2d")
+
+    if (!context) {
+      throw new Error("Image resizing needs a 2D canvas context, which is unavailable in this environment")
+    }
+
+    context.imageSmoothingQuality = "high"
+    context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height)
+
+    const type = options.type ?? (ENCODABLE_TYPES.includes(blob.type) ? blob.type : "image/png")
+    return await canvas.convertToBlob({ type, quality: options.quality })
+  } finally {
+    bitmap.close()
+  }
+}
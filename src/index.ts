@@ -1,7 +1,24 @@
 export * from "./async"
 export * from "./buffer"
 export * from "./blob"
+export * from "./codecs"
+export * from "./compression"
+export * from "./crypto"
+export * from "./cursor"
+export * from "./dataurl"
+export * from "./errors"
 export * from "./event"
+export * from "./hash"
+export * from "./image"
+export * from "./multipart"
+export * from "./objecturl"
+export * from "./padding"
 export * from "./paths"
+export * from "./pool"
 export * from "./promise"
-export { $text, $hex, $base64 } from "./text"
+export * from "./result"
+export * from "./retry"
+export * from "./sniff"
+export * from "./upload"
+export { $text, $hex, $base32, $base58, $base64, $base85, type TextChunkDecoder, type TextDecodeOptions, type TextEncodeOptions, type TextEncodingName } from "./text"
+export { DecodeError, type Base32Variant, type Base85Variant, type DecodeMode } from "./transcoders"
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest"
+import { multipart, type ParsedPart } from "./multipart"
+
+
+describe("multipart", () => {
+  const text = (part: ParsedPart) => new TextDecoder().decode(part.body)
+
+  async function collect(parts: AsyncIterable<ParsedPart>) {
+    const result: ParsedPart[] = []
+
+    for await (const part of parts) {
+      result.push(part)
+    }
+
+    return result
+  }
+
+  // Streams the bytes in chunks of `size`, to split delimiters and headers across reads
+  function chunked(bytes: Uint8Array, size: number) {
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += size) {
+          controller.enqueue(bytes.slice(i, i + size))
+        }
+        controller.close()
+      },
+    })
+  }
+
+  describe("boundary", () => {
+    it("should generate random boundaries", () => {
+      expect(multipart.boundary()).toMatch(/^----tilworth[0-9a-f]{24}$/)
+      expect(multipart.boundary()).not.toBe(multipart.boundary())
+    })
+
+    it("should read the boundary from a Content-Type", () => {
+      expect(multipart.boundaryOf("multipart/form-data; boundary=abc")).toBe("abc")
+      expect(multipart.boundaryOf("multipart/mixed; charset=utf-8; Boundary=\"a b\"")).toBe("a b")
+      expect(multipart.boundaryOf("text/plain")).toBeUndefined()
+    })
+  })
+
+  describe("encode", () => {
+    it("should serialize parts with headers", async () => {
+      const { body, boundary, contentType } = multipart.encode([
+        { name: "title", body: "Holiday" },
+        { name: "photo", filename: "a \"b\".png", body: new Blob([new Uint8Array([1, 2])], { type: "image/png" }) },
+        { name: "raw", body: new Uint8Array([3]), headers: { "X-Id": "7" } },
+        { filename: "notes.txt", body: "hi" },
+      ], { boundary: "XYZ" })
+
+      expect(boundary).toBe("XYZ")
+      expect(contentType).toBe("multipart/form-data; boundary=XYZ")
+      expect(await body.text()).toBe([
+        "--XYZ",
+        "Content-Disposition: form-data; name=\"title\"",
+        "",
+        "Holiday",
+        "--XYZ",
+        "Content-Disposition: form-data; name=\"photo\"; filename=\"a %22b%22.png\"",
+        "Content-Type: image/png",
+        "",
+        "\x01\x02",
+        "--XYZ",
+        "Content-Disposition: form-data; name=\"raw\"",
+        "X-Id: 7",
+        "",
+        "\x03",
+        "--XYZ",
+        "Content-Disposition: form-data; filename=\"notes.txt\"",
+        "Content-Type: application/octet-stream",
+        "",
+        "hi",
+        "--XYZ--",
+        "",
+      ].join("\r\n"))
+    })
+
+    it("should use attachment dispositions for other subtypes", async () => {
+      const { body, contentType } = multipart.encode([{ filename: "a.txt", type: "text/plain", body: "a" }], { boundary: "B", subtype: "mixed" })
+
+      expect(contentType).toBe("multipart/mixed; boundary=B")
+      expect(await body.text()).toContain("Content-Disposition: attachment; filename=\"a.txt\"\r\nContent-Type: text/plain\r\n")
+    })
+  })
+
+  describe("parse", () => {
+    it("should round-trip encoded parts", async () => {
+      const binary = new Uint8Array(300).map((_, i) => i % 256)
+      const { body, contentType } = multipart.encode([
+        { name: "title", body: "Holiday ☀" },
+        { name: "photo", filename: "a \"b\".png", type: "image/png", body: binary },
+        { name: "empty", body: "" },
+      ])
+
+      const parts = await collect(multipart.parse(body, multipart.boundaryOf(contentType)!))
+
+      expect(parts.map(p => [p.name, p.filename, p.type])).toEqual([
+        ["title", undefined, undefined],
+        ["photo", "a \"b\".png", "image/png"],
+        ["empty", undefined, undefined],
+      ])
+      expect(text(parts[0])).toBe("Holiday ☀")
+      expect(Array.from(parts[1].body)).toEqual(Array.from(binary))
+      expect(parts[2].body.length).toBe(0)
+    })
+
+    it.each([1, 2, 5, 13])("should parse a body streamed in chunks of %i bytes", async (size) => {
+      const { body } = multipart.encode([
+        { name: "a", body: "first\r\n--not-the-boundary" },
+        { name: "b", body: "second" },
+      ], { boundary: "BOUNDARY" })
+      const bytes = new Uint8Array(await body.arrayBuffer())
+
+      const parts = await collect(multipart.parse(chunked(bytes, size), "BOUNDARY"))
+
+      expect(parts.map(text)).toEqual(["first\r\n--not-the-boundary", "second"])
+    })
+
+    it("should skip the preamble and epilogue and accept parts without headers", async () => {
+      const body = "preamble\r\n--B  \r\n\r\nno headers\r\n--B\r\nContent-Type: text/plain\r\n\r\nplain\r\n--B--\r\nepilogue"
+
+      const parts = await collect(multipart.parse(new TextEncoder().encode(body), "B"))
+
+      expect(parts.map(text)).toEqual(["no headers", "plain"])
+      expect(Array.from(parts[0].headers)).toEqual([])
+      expect(parts[1].headers.get("content-type")).toBe("text/plain")
+    })
+
+    it("should throw a SyntaxError for a body without a closing boundary", async () => {
+      const body = new TextEncoder().encode("--B\r\n\r\ntruncated")
+
+      await expect(collect(multipart.parse(body, "B"))).rejects.toThrow("Malformed multipart body: missing closing boundary")
+    })
+
+    it("should throw a SyntaxError for malformed headers and boundary lines", async () => {
+      await expect(collect(multipart.parse(new TextEncoder().encode("--B\r\nnot a header\r\n\r\nx\r\n--B--"), "B"))).rejects.toThrow(SyntaxError)
+      await expect(collect(multipart.parse(new TextEncoder().encode("--Bx\r\n\r\nx\r\n--B--"), "B"))).rejects.toThrow("invalid boundary line")
+    })
+
+    it("should cancel the source when the caller stops early", async () => {
+      let cancelled = false
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode("--B\r\n\r\none\r\n--B\r\n\r\ntwo"))
+        },
+        cancel() {
+          cancelled = true
+        },
+      })
+
+      for await (const part of multipart.parse(stream, "B")) {
+        expect(text(part)).toBe("one")
+        break
+      }
+
+      expect(cancelled).toBe(true)
+    })
+  })
+})
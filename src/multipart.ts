@@ -0,0 +1,250 @@
+import { blob } from "./blob"
+import { $buffer } from "./buffer"
+import { toBytes, utf8 } from "./transcoders"
+
+/**
+ * A part to encode into a multipart body.
+ */
+export interface MultipartPart {
+  /** The form field name, written to the Content-Disposition header */
+  name?: string
+  /** The file name, written to the Content-Disposition header */
+  filename?: string
+  /** The Content-Type, defaults to the Blob's type, or `application/octet-stream` for files */
+  type?: string
+  /** Extra headers */
+  headers?: Record<string, string>
+  /** The part contents, strings are encoded as UTF-8 */
+  body: string | Blob | ArrayBuffer | ArrayBufferView
+}
+
+/**
+ * A part parsed from a multipart body.
+ */
+export interface ParsedPart {
+  headers: Headers
+  /** The form field name from the Content-Disposition header */
+  name?: string
+  /** The file name from the Content-Disposition header */
+  filename?: string
+  /** The Content-Type header */
+  type?: string
+  body: Uint8Array
+}
+
+export interface MultipartEncodeOptions {
+  /** The boundary, a random one is generated if omitted */
+  boundary?: string
+  /** The multipart subtype, defaults to `form-data` */
+  subtype?: string
+}
+
+const CRLF = "\r\n"
+const HEADERS_END = utf8.encode("\r\n\r\n")
+
+export const multipart = {
+  /**
+   * Generates a random boundary.
+   *
+   * @returns A boundary that is vanishingly unlikely to appear in any part
+   * @example
+   * multipart.boundary() // returns e.g. "----tilworth3f9a0c2b8e1d4f6a7b5c9e0d"
+   */
+  boundary() {
+    return `----tilworth${$buffer.toHex(crypto.getRandomValues(new Uint8Array(12)))}`
+  },
+
+  /**
+   * Gets the boundary from a multipart Content-Type.
+   *
+   * @param contentType - The Content-Type header value
+   * @returns The boundary, or undefined if there is none
+   * @example
+   * multipart.boundaryOf('multipart/form-data; boundary="abc"') // returns "abc"
+   */
+  boundaryOf(contentType: string) {
+    return parseParams(contentType).boundary
+  },
+
+  /**
+   * Encodes parts into a multipart body.
+   * Blob parts are included without being read.
+   *
+   * The Content-Type is returned separately, as a Blob's type is lowercased, which would change a custom boundary.
+   *
+   * @param parts - The parts to encode
+   * @param options - The boundary and multipart subtype
+   * @returns The body, its boundary, and the Content-Type including the boundary
+   * @example
+   * const { body, contentType } = multipart.encode([
+   *   { name: "title", body: "Holiday" },
+   *   { name: "photo", filename: "beach.jpg", body: file },
+   * ])
+   * await fetch(url, { method: "POST", body, headers: { "Content-Type": contentType } })
+   */
+  encode(parts: MultipartPart[], options: MultipartEncodeOptions = {}) {
+    const { boundary = this.boundary(), subtype = "form-data" } = options
+    const chunks: Array<Blob | Uint8Array> = []
+
+    for (const part of parts) {
+      const body = typeof part.body === "string" ? blob.fromText(part.body) : part.body instanceof Blob ? part.body : toBytes(part.body)
+      const type = part.type || (part.body instanceof Blob ? part.body.type : "") || (part.filename !== undefined ? "application/octet-stream" : "")
+      const headers: string[] = []
+
+      if (part.name !== undefined || part.filename !== undefined) {
+        const params = [part.name, part.filename].map((value, i) => value === undefined ? "" : `; ${i ? "filename" : "name"}="${escape(value)}"`)
+        headers.push(`Content-Disposition: ${subtype === "form-data" ? "form-data" : "attachment"}${params.join("")}`)
+      }
+
+      type && headers.push(`Content-Type: ${type}`)
+      Object.entries(part.headers ?? {}).forEach(([name, value]) => headers.push(`${name}: ${value}`))
+
+      chunks.push(blob.fromText(`--${boundary}${CRLF}${headers.map(h => h + CRLF).join("")}${CRLF}`), body, blob.fromText(CRLF))
+    }
+
+    chunks.push(blob.fromText(`--${boundary}--${CRLF}`))
+    const contentType = `multipart/${subtype}; boundary=${boundary}`
+    return { body: new Blob(chunks, { type: contentType }), boundary, contentType }
+  },
+
+  /**
+   * Parses a multipart body, yielding each part as soon as it has been read.
+   * The body is read as a stream, so only the current part is held in memory.
+   *
+   * @param body - The multipart body
+   * @param boundary - The boundary, e.g. from `multipart.boundaryOf(contentType)`
+   * @returns An async generator of parts
+   * @throws {SyntaxError} If the body is malformed or ends before the closing boundary
+   * @example
+   * const boundary = multipart.boundaryOf(response.headers.get("Content-Type")!)!
+   * for await (const part of multipart.parse(response.body!, boundary)) {
+   *   console.log(part.name, part.body.length)
+   * }
+   */
+  async *parse(body: Blob | ReadableStream<Uint8Array> | ArrayBuffer | ArrayBufferView, boundary: string): AsyncGenerator<ParsedPart> {
+    const stream = body instanceof ReadableStream ? body : (body instanceof Blob ? body : new Blob([toBytes(body)])).stream()
+    const reader = stream.getReader()
+    const delimiter = utf8.encode(`${CRLF}--${boundary}`)
+    // Start with a line break, so the first boundary matches the delimiter like the rest
+    let buf = utf8.encode(CRLF)
+    let state: "preamble" | "boundary" | "headers" | "body" | "end" = "preamble"
+    let headers = new Headers()
+    let parts: Uint8Array[] = []
+    let done = false
+
+    try {
+      while (state !== "end") {
+        if (state === "preamble" || state === "body") {
+          const i = $buffer.indexOf(buf, delimiter)
+
+          if (i === -1) {
+            // Keep enough to match a delimiter split across chunks
+            const keep = Math.max(0, buf.length - delimiter.length + 1)
+            state === "body" && keep && parts.push(buf.subarray(0, keep))
+            buf = buf.subarray(keep)
+          } else {
+            if (state === "body") {
+              parts.push(buf.subarray(0, i))
+              yield toPart(headers, parts)
+              parts = []
+            }
+
+            buf = buf.subarray(i + delimiter.length)
+            state = "boundary"
+            continue
+          }
+        } else if (state === "boundary") {
+          // After a delimiter comes "--" for the close delimiter, or optional whitespace then a line break
+          const i = $buffer.indexOf(buf, 0x0a)
+
+          if (buf[0] === 0x2d && buf[1] === 0x2d) {
+            state = "end"
+            continue
+          }
+
+          if (i !== -1) {
+            if (!/^[ \t]*\r$/.test(utf8.decode(buf.subarray(0, i)))) {
+              throw new SyntaxError("Malformed multipart body: invalid boundary line")
+            }
+
+            buf = buf.subarray(i + 1)
+            state = "headers"
+            continue
+          }
+        } else if (buf.length >= 2 && buf[0] === 0x0d && buf[1] === 0x0a) {
+          // A part without headers starts with the blank line straight away
+          headers = new Headers()
+          buf = buf.subarray(2)
+          state = "body"
+          continue
+        } else {
+          const i = $buffer.indexOf(buf, HEADERS_END)
+
+          if (i !== -1) {
+            headers = parseHeaders(utf8.decode(buf.subarray(0, i)))
+            buf = buf.subarray(i + HEADERS_END.length)
+            state = "body"
+            continue
+          }
+        }
+
+        const r = await reader.read()
+
+        if ((done = r.done)) {
+          throw new SyntaxError("Malformed multipart body: missing closing boundary")
+        }
+
+        buf = $buffer.concat(buf, r.value)!
+      }
+    } finally {
+      // Cancel the source if the caller stopped early, or the epilogue was not read
+      done ? reader.releaseLock() : await reader.cancel()
+    }
+  },
+}
+
+function toPart(headers: Headers, parts: Uint8Array[]): ParsedPart {
+  const disposition = parseParams(headers.get("Content-Disposition") ?? "")
+
+  return {
+    headers,
+    name: disposition.name,
+    filename: disposition.filename,
+    type: headers.get("Content-Type") ?? undefined,
+    body: parts.length === 1 ? parts[0].slice() : $buffer.concat(...parts) ?? new Uint8Array(),
+  }
+}
+
+function parseHeaders(text: string) {
+  const headers = new Headers()
+
+  for (const line of text.split(CRLF)) {
+    const colon = line.indexOf(":")
+
+    if (colon <= 0) {
+      throw new SyntaxError(`Malformed multipart body: invalid header line "${line}"`)
+    }
+
+    headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim())
+  }
+
+  return headers
+}
+
+// Parses `; name=value` parameters, unquoting quoted values
+function parseParams(value: string) {
+  const params: Record<string, string> = {}
+
+  for (const [, name, raw] of value.matchAll(/;\s*([^\s=;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g)) {
+    params[name.toLowerCase()] = raw.startsWith("\"")
+      ? raw.slice(1, -1).replace(/\\(.)/g, "$1").replace(/%22/g, "\"")
+      : raw.trim()
+  }
+
+  return params
+}
+
+// Escapes a name or filename as browsers do for form-data
+function escape(value: string) {
+  return value.replace(/"/g, "%22").replace(/\r/g, "%0D").replace(/\n/g, "%0A")
+}
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { blob } from "./blob"
+import { ObjectUrl, ObjectUrlPool } from "./objecturl"
+
+describe("objecturl", () => {
+  let revoke: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    revoke = vi.spyOn(URL, "revokeObjectURL")
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("blob.objectUrl", () => {
+    it("should create a blob URL", () => {
+      const data = new Blob(["hello"])
+      const handle = blob.objectUrl(data)
+
+      expect(handle).toBeInstanceOf(ObjectUrl)
+      expect(handle.url).toMatch(/^blob:/)
+      expect(handle.blob).toBe(data)
+      expect(String(handle)).toBe(handle.url)
+      expect(handle.revoked).toBe(false)
+      handle.revoke()
+    })
+
+    it("should revoke the URL once", () => {
+      const handle = blob.objectUrl(new Blob(["hello"]))
+
+      handle.revoke()
+      handle.revoke()
+
+      expect(handle.revoked).toBe(true)
+      expect(revoke).toHaveBeenCalledTimes(1)
+      expect(revoke).toHaveBeenCalledWith(handle.url)
+    })
+
+    it("should revoke the URL when disposed", () => {
+      let url: string
+
+      {
+        using handle = blob.objectUrl(new Blob(["hello"]))
+        url = handle.url
+        expect(revoke).not.toHaveBeenCalled()
+      }
+
+      expect(revoke).toHaveBeenCalledWith(url)
+    })
+  })
+
+  describe("ObjectUrlPool", () => {
+    it("should share one URL between handles to the same blob", () => {
+      const pool = new ObjectUrlPool()
+      const data = new Blob(["hello"])
+      const a = pool.acquire(data)
+      const b = pool.acquire(data)
+
+      expect(a.url).toBe(b.url)
+      expect(pool.size).toBe(1)
+      expect(pool.has(data)).toBe(true)
+
+      a.revoke()
+      expect(revoke).not.toHaveBeenCalled()
+      expect(pool.has(data)).toBe(true)
+
+      b.revoke()
+      expect(revoke).toHaveBeenCalledWith(a.url)
+      expect(pool.size).toBe(0)
+    })
+
+    it("should not count a handle revoked twice", () => {
+      const pool = new ObjectUrlPool()
+      const data = new Blob(["hello"])
+      const a = pool.acquire(data)
+      pool.acquire(data)
+
+      a.revoke()
+      a.revoke()
+
+      expect(revoke).not.toHaveBeenCalled()
+      expect(pool.has(data)).toBe(true)
+      pool.dispose()
+    })
+
+    it("should give different blobs different URLs", () => {
+      const pool = new ObjectUrlPool()
+      const a = pool.acquire(new Blob(["a"]))
+      const b = pool.acquire(new Blob(["b"]))
+
+      expect(a.url).not.toBe(b.url)
+      expect(pool.size).toBe(2)
+      pool.dispose()
+    })
+
+    it("should create a new URL after the last handle is revoked", () => {
+      const pool = new ObjectUrlPool()
+      const data = new Blob(["hello"])
+      const a = pool.acquire(data)
+      a.revoke()
+
+      const b = pool.acquire(data)
+      expect(b.url).not.toBe(a.url)
+      pool.dispose()
+    })
+
+    it("should revoke every URL when disposed", () => {
+      const pool = new ObjectUrlPool()
+      const data = new Blob(["a"])
+      const a = pool.acquire(data)
+      pool.acquire(data)
+      const b = pool.acquire(new Blob(["b"]))
+
+      pool.dispose()
+
+      expect(revoke).toHaveBeenCalledTimes(2)
+      expect(revoke).toHaveBeenCalledWith(a.url)
+      expect(revoke).toHaveBeenCalledWith(b.url)
+      expect(pool.size).toBe(0)
+      expect(pool.disposed).toBe(true)
+
+      // Handles outliving the pool don't revoke again
+      a.revoke()
+      expect(revoke).toHaveBeenCalledTimes(2)
+    })
+
+    it("should throw when acquiring from a disposed pool", () => {
+      const pool = new ObjectUrlPool()
+      pool.dispose()
+
+      expect(() => pool.acquire(new Blob(["a"]))).toThrow("ObjectUrlPool has been disposed")
+    })
+
+    it("should be disposed by using", () => {
+      let url: string
+
+      {
+        using pool = new ObjectUrlPool()
+        url = pool.acquire(new Blob(["a"])).url
+      }
+
+      expect(revoke).toHaveBeenCalledWith(url)
+    })
+
+    it("should be disposed when its signal aborts", () => {
+      const controller = new AbortController()
+      const pool = new ObjectUrlPool({ signal: controller.signal })
+      const handle = pool.acquire(new Blob(["a"]))
+
+      controller.abort()
+
+      expect(pool.disposed).toBe(true)
+      expect(revoke).toHaveBeenCalledWith(handle.url)
+    })
+
+    it("should start disposed with an aborted signal", () => {
+      const pool = new ObjectUrlPool({ signal: AbortSignal.abort() })
+
+      expect(pool.disposed).toBe(true)
+      expect(() => pool.acquire(new Blob(["a"]))).toThrow()
+    })
+  })
+})
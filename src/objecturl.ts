@@ -0,0 +1,152 @@
+/**
+ * An object URL for a Blob, revoked when disposed.
+ * Works with `using`, so the URL can't outlive its scope.
+ *
+ * @example
+ * using handle = blob.objectUrl(video)
+ * player.src = handle.url
+ */
+export class ObjectUrl implements Disposable {
+  private isRevoked = false
+
+  /**
+   * @param blob - The blob the URL points to
+   * @param url - The object URL
+   * @param release - Called once when the handle is revoked, defaults to revoking the URL
+   */
+  constructor(readonly blob: Blob, readonly url: string, private release = () => URL.revokeObjectURL(url)) {}
+
+  /**
+   * Creates an object URL for a Blob.
+   * @param blob - The blob
+   */
+  static create(blob: Blob) {
+    return new ObjectUrl(blob, URL.createObjectURL(blob))
+  }
+
+  /** Whether the handle has been revoked */
+  get revoked() {
+    return this.isRevoked
+  }
+
+  /**
+   * Revokes the handle. Further calls do nothing.
+   */
+  revoke() {
+    if (!this.isRevoked) {
+      this.isRevoked = true
+      this.release()
+    }
+  }
+
+  [Symbol.dispose]() {
+    this.revoke()
+  }
+
+  toString() {
+    return this.url
+  }
+}
+
+export interface ObjectUrlPoolOptions {
+  /** Disposes the pool when aborted */
+  signal?: AbortSignal
+}
+
+interface PoolEntry {
+  url: string
+  refs: number
+}
+
+/**
+ * Creates object URLs within a scope, and revokes them all when the pool is disposed.
+ * The same Blob shares one URL, which is revoked once every handle to it has been revoked.
+ *
+ * @example
+ * const pool = new ObjectUrlPool({ signal: controller.signal })
+ * img.src = pool.acquire(photo).url
+ * thumb.src = pool.acquire(photo).url // the same URL
+ * controller.abort() // revokes it
+ */
+export class ObjectUrlPool implements Disposable {
+  private entries = new Map<Blob, PoolEntry>()
+  private isDisposed = false
+  private signal?: AbortSignal
+
+  /**
+   * @param options - An AbortSignal that disposes the pool
+   */
+  constructor(options: ObjectUrlPoolOptions = {}) {
+    this.dispose = this.dispose.bind(this)
+    this.signal = options.signal
+
+    if (this.signal?.aborted) {
+      this.isDisposed = true
+    } else {
+      this.signal?.addEventListener("abort", this.dispose, { once: true })
+    }
+  }
+
+  /** The number of blobs with a live URL */
+  get size() {
+    return this.entries.size
+  }
+
+  /** Whether the pool has been disposed */
+  get disposed() {
+    return this.isDisposed
+  }
+
+  /**
+   * Gets a handle to an object URL for a Blob, creating the URL if the pool has none for it.
+   * @param blob - The blob
+   * @returns A handle, whose URL is revoked when it and every other handle to the blob are revoked
+   * @throws {Error} If the pool has been disposed
+   */
+  acquire(blob: Blob) {
+    if (this.isDisposed) {
+      throw new Error("ObjectUrlPool has been disposed")
+    }
+
+    let entry = this.entries.get(blob)
+
+    if (!entry) {
+      entry = { url: URL.createObjectURL(blob), refs: 0 }
+      this.entries.set(blob, entry)
+    }
+
+    const current = entry
+    current.refs++
+
+    return new ObjectUrl(blob, current.url, () => {
+      // Ignore handles to a URL already revoked by dispose
+      if (this.entries.get(blob) === current && --current.refs === 0) {
+        this.entries.delete(blob)
+        URL.revokeObjectURL(current.url)
+      }
+    })
+  }
+
+  /**
+   * Checks whether the pool has a live URL for a Blob.
+   * @param blob - The blob
+   */
+  has(blob: Blob) {
+    return this.entries.has(blob)
+  }
+
+  /**
+   * Revokes every URL in the pool, whatever its handles' counts.
+   * The pool can't be used afterwards.
+   */
+  dispose() {
+    this.isDisposed = true
+    this.signal?.removeEventListener("abort", this.dispose)
+    this.entries.forEach(entry => URL.revokeObjectURL(entry.url))
+    this.entries.clear()
+  }
+
+  [Symbol.dispose]() {
+    this.dispose()
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest"
+import { $padding, PaddingError } from "./padding"
+
+
+describe("padding", () => {
+  const bytes = (n: number) => new Uint8Array(n).map((_, i) => i + 1)
+
+  describe("header", () => {
+    it("should match the $buffer.pad format and round-trip", () => {
+      const scheme = $padding.header(2)
+      const padded = scheme.pad(new Uint8Array([7]))
+
+      expect(Array.from(padded)).toEqual([0, 2, 0, 0, 7])
+      expect(Array.from(scheme.unpad(padded))).toEqual([7])
+    })
+
+    it("should reject a padding length that does not fit the header", () => {
+      expect(() => $padding.header(0x10000)).toThrow(RangeError)
+    })
+  })
+
+  describe("random", () => {
+    it("should pad within the range and round-trip", () => {
+      const scheme = $padding.random({ min: 10, max: 20 })
+
+      for (let i = 0; i < 20; i++) {
+        const padded = scheme.pad(bytes(3))
+        expect(padded.length).toBeGreaterThanOrEqual(2 + 10 + 3)
+        expect(padded.length).toBeLessThanOrEqual(2 + 20 + 3)
+        expect(Array.from(scheme.unpad(padded))).toEqual([1, 2, 3])
+      }
+    })
+
+    it("should support padding lengths beyond 255", () => {
+      const padded = $padding.random({ min: 1000, max: 1000 }).pad(bytes(1))
+
+      expect(padded.length).toBe(2 + 1000 + 1)
+    })
+
+    it("should reject an invalid range", () => {
+      expect(() => $padding.random({ min: 10, max: 5 })).toThrow(RangeError)
+      expect(() => $padding.random({ max: 0x10000 })).toThrow(RangeError)
+    })
+  })
+
+  describe("pkcs7", () => {
+    it("should pad to the block size with the padding length", () => {
+      expect(Array.from($padding.pkcs7(4).pad(bytes(1)))).toEqual([1, 3, 3, 3])
+      expect(Array.from($padding.pkcs7(4).pad(bytes(4)))).toEqual([1, 2, 3, 4, 4, 4, 4, 4])
+    })
+
+    it("should round-trip", () => {
+      const scheme = $padding.pkcs7()
+
+      for (const n of [0, 1, 15, 16, 17]) {
+        expect(Array.from(scheme.unpad(scheme.pad(bytes(n))))).toEqual(Array.from(bytes(n)))
+      }
+    })
+
+    it("should throw a PaddingError for invalid padding", () => {
+      const scheme = $padding.pkcs7(4)
+
+      expect(() => scheme.unpad(new Uint8Array([1, 2, 3]))).toThrow(PaddingError)
+      expect(() => scheme.unpad(new Uint8Array([1, 2, 3, 0]))).toThrow("Invalid padding bytes in pkcs7 padding")
+      expect(() => scheme.unpad(new Uint8Array([1, 2, 1, 2]))).toThrow(PaddingError)
+      expect(() => scheme.unpad(new Uint8Array([5, 5, 5, 5]))).toThrow(PaddingError)
+    })
+  })
+
+  describe("iso7816", () => {
+    it("should pad with a marker byte then zeros", () => {
+      expect(Array.from($padding.iso7816(4).pad(bytes(1)))).toEqual([1, 0x80, 0, 0])
+      expect(Array.from($padding.iso7816(4).pad(bytes(4)))).toEqual([1, 2, 3, 4, 0x80, 0, 0, 0])
+    })
+
+    it("should round-trip data ending in zeros", () => {
+      const scheme = $padding.iso7816(8)
+      const data = new Uint8Array([1, 0x80, 0, 0])
+
+      expect(Array.from(scheme.unpad(scheme.pad(data)))).toEqual([1, 0x80, 0, 0])
+    })
+
+    it("should throw a PaddingError for a missing marker or misaligned input", () => {
+      expect(() => $padding.iso7816(4).unpad(new Uint8Array([1, 0, 0, 0]))).toThrow("Missing 0x80 marker in iso7816 padding")
+      expect(() => $padding.iso7816(4).unpad(new Uint8Array([1, 0x80]))).toThrow(PaddingError)
+    })
+  })
+
+  describe("bucket", () => {
+    it("should pad to the next power of two", () => {
+      const scheme = $padding.bucket()
+
+      expect(scheme.pad(bytes(100)).length).toBe(128)
+      expect(scheme.pad(bytes(127)).length).toBe(128)
+      expect(scheme.pad(bytes(128)).length).toBe(256)
+      expect(scheme.pad(bytes(0)).length).toBe(1)
+    })
+
+    it("should pad to a multiple of a fixed block size", () => {
+      expect($padding.bucket(1000).pad(bytes(100)).length).toBe(1000)
+      expect($padding.bucket(1000).pad(bytes(1000)).length).toBe(2000)
+    })
+
+    it("should round-trip", () => {
+      const scheme = $padding.bucket(64)
+
+      expect(Array.from(scheme.unpad(scheme.pad(bytes(10))))).toEqual(Array.from(bytes(10)))
+      expect(() => scheme.unpad(new Uint8Array(64))).toThrow(PaddingError)
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import { BufferReader, BufferWriter } from "./cursor"
+
+/**
+ * A reversible padding scheme, created with one of the `$padding` factories.
+ */
+export interface PaddingScheme {
+  /** The scheme name, used in error messages */
+  readonly name: string
+  /** Pads a buffer, returning a new buffer */
+  pad(buf: Uint8Array): Uint8Array
+  /** Strips the padding from a buffer, returning a new buffer, or throws a `PaddingError` */
+  unpad(buf: Uint8Array): Uint8Array
+}
+
+export interface RandomPaddingOptions {
+  /** The smallest padding length, defaults to 0 */
+  min?: number
+  /** The largest padding length, defaults to 255 and can be at most 65535 */
+  max?: number
+}
+
+/**
+ * Thrown when padding is missing or malformed.
+ */
+export class PaddingError extends RangeError {
+  name = "PaddingError"
+
+  constructor(readonly scheme: string, reason: string) {
+    super(`${reason} in ${scheme} padding`)
+  }
+}
+
+export const $padding = {
+  /**
+   * The `$buffer.pad` format: a 2-byte big-endian length header, then `len` zeros, then the data.
+   * Unpadding accepts any padding length, so one scheme unpads the output of every `header` and `random` scheme.
+   *
+   * @param len - The padding length, at most 65535
+   * @returns The padding scheme
+   * @example
+   * $padding.header(2).pad(new Uint8Array([1])) // returns Uint8Array([0, 2, 0, 0, 1])
+   */
+  header(len = 0): PaddingScheme {
+    checkRange("header", len, 0, 0xffff)
+    return { name: "header", pad: (buf) => padHeader(buf, len), unpad: (buf) => unpadHeader(buf, "header") }
+  },
+
+  /**
+   * The `$buffer.pad` format with a random padding length drawn uniformly from `min` to `max` (inclusive)
+   * with `crypto.getRandomValues`.
+   *
+   * @param options - The padding length range
+   * @returns The padding scheme
+   * @example
+   * $padding.random({ min: 16, max: 1024 }).pad(message)
+   */
+  random(options: RandomPaddingOptions = {}): PaddingScheme {
+    const { min = 0, max = 255 } = options
+    checkRange("random", min, 0, 0xffff)
+    checkRange("random", max, min, 0xffff)
+    return { name: "random", pad: (buf) => padHeader(buf, randomInt(min, max)), unpad: (buf) => unpadHeader(buf, "random") }
+  },
+
+  /**
+   * PKCS#7 padding: pads to a multiple of the block size with bytes equal to the padding length.
+   * A full block of padding is added when the data is already block-aligned.
+   *
+   * @param blockSize - The block size in bytes, from 1 to 255
+   * @returns The padding scheme
+   * @example
+   * $padding.pkcs7(4).pad(new Uint8Array([1])) // returns Uint8Array([1, 3, 3, 3])
+   */
+  pkcs7(blockSize = 16): PaddingScheme {
+    checkRange("pkcs7", blockSize, 1, 0xff)
+
+    return {
+      name: "pkcs7",
+      pad(buf) {
+        const len = blockSize - (buf.length % blockSize)
+        const padded = new Uint8Array(buf.length + len).fill(len)
+        padded.set(buf)
+        return padded
+      },
+      unpad(buf) {
+        const len = buf[buf.length - 1]
+
+        if (buf.length === 0 || buf.length % blockSize) {
+          throw new PaddingError("pkcs7", `Length ${buf.length} is not a multiple of the block size`)
+        }
+
+        if (len < 1 || len > blockSize || buf.subarray(buf.length - len).some(b => b !== len)) {
+          throw new PaddingError("pkcs7", "Invalid padding bytes")
+        }
+
+        return buf.slice(0, buf.length - len)
+      },
+    }
+  },
+
+  /**
+   * ISO/IEC 7816-4 padding: a 0x80 marker byte then zeros, up to a multiple of the block size.
+   *
+   * @param blockSize - The block size in bytes
+   * @returns The padding scheme
+   * @example
+   * $padding.iso7816(4).pad(new Uint8Array([1])) // returns Uint8Array([1, 0x80, 0, 0])
+   */
+  iso7816(blockSize = 16): PaddingScheme {
+    checkRange("iso7816", blockSize, 1, Number.MAX_SAFE_INTEGER)
+
+    return {
+      name: "iso7816",
+      pad: (buf) => padMarker(buf, Math.ceil((buf.length + 1) / blockSize) * blockSize),
+      unpad(buf) {
+        if (buf.length % blockSize) {
+          throw new PaddingError("iso7816", `Length ${buf.length} is not a multiple of the block size`)
+        }
+
+        return unpadMarker(buf, "iso7816")
+      },
+    }
+  },
+
+  /**
+   * Bucket padding, to hide the exact message length: pads with a 0x80 marker then zeros up to
+   * the next multiple of the block size, or without a block size up to the next power of two.
+   *
+   * @param blockSize - The bucket size in bytes, omit for power of two buckets
+   * @returns The padding scheme
+   * @example
+   * $padding.bucket().pad(new Uint8Array(100)).length // 128
+   * $padding.bucket(1000).pad(new Uint8Array(100)).length // 1000
+   */
+  bucket(blockSize?: number): PaddingScheme {
+    blockSize === undefined || checkRange("bucket", blockSize, 1, Number.MAX_SAFE_INTEGER)
+
+    return {
+      name: "bucket",
+      pad(buf) {
+        const min = buf.length + 1
+        return padMarker(buf, blockSize ? Math.ceil(min / blockSize) * blockSize : 2 ** Math.ceil(Math.log2(min)))
+      },
+      unpad: (buf) => unpadMarker(buf, "bucket"),
+    }
+  },
+}
+
+function padHeader(buf: Uint8Array, len: number) {
+  return new BufferWriter(2 + len + buf.length)
+    .u16(len)
+    .raw(new Uint8Array(len))
+    .raw(buf)
+    .finish()
+}
+
+function unpadHeader(buf: Uint8Array, scheme: string) {
+  const reader = new BufferReader(buf)
+
+  if (reader.remaining < 2) {
+    throw new PaddingError(scheme, "Missing length header")
+  }
+
+  const len = reader.u16()
+
+  if (len > reader.remaining) {
+    throw new PaddingError(scheme, `Padding length ${len} exceeds the ${reader.remaining} bytes available`)
+  }
+
+  if (reader.raw(len).some(b => b !== 0)) {
+    throw new PaddingError(scheme, "Non-zero padding bytes")
+  }
+
+  return buf.slice(reader.offset)
+}
+
+function padMarker(buf: Uint8Array, size: number) {
+  const padded = new Uint8Array(size)
+  padded.set(buf)
+  padded[buf.length] = 0x80
+  return padded
+}
+
+function unpadMarker(buf: Uint8Array, scheme: string) {
+  let end = buf.length - 1
+  for (; end >= 0 && buf[end] === 0; end--) { }
+
+  if (buf[end] !== 0x80) {
+    throw new PaddingError(scheme, "Missing 0x80 marker")
+  }
+
+  return buf.slice(0, end)
+}
+
+function randomInt(min: number, max: number) {
+  const range = max - min + 1
+  // Reject draws from the incomplete last cycle so every value is equally likely
+  const limit = 2 ** 32 - (2 ** 32 % range)
+  const draw = new Uint32Array(1)
+
+  do {
+    crypto.getRandomValues(draw)
+  } while (draw[0] >= limit)
+
+  return min + (draw[0] % range)
+}
+
+function checkRange(scheme: string, value: number, min: number, max: number) {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new RangeError(`Invalid ${scheme} padding parameter ${value}, expected an integer from ${min} to ${max}`)
+  }
+}
@@ -0,0 +1,330 @@
+import { describe, expect, it, vi } from "vitest"
+import { AbortError } from "./errors"
+import { eachLimit, mapLimit, PromisePool } from "./pool"
+
+
+describe("pool", () => {
+  // Whether an error is an AbortError caused by the given reason
+  const abortedBy = (cause: unknown) => (err: unknown) => err instanceof AbortError && err.cause === cause
+
+  // A promise with its resolve and reject exposed
+  function deferred<T = void>() {
+    let resolve!: (value: T) => void
+    let reject!: (reason: unknown) => void
+    const promise = new Promise<T>((res, rej) => (resolve = res, reject = rej))
+    return { promise, resolve, reject }
+  }
+
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+  describe("PromisePool", () => {
+    it("should run at most the concurrency at once", async () => {
+      const pool = new PromisePool(2)
+      const tasks = [deferred(), deferred(), deferred()]
+      const started: number[] = []
+
+      tasks.forEach((task, i) => pool.add(() => (started.push(i), task.promise)))
+
+      expect(started).toEqual([0, 1])
+      expect(pool.pending).toBe(2)
+      expect(pool.size).toBe(1)
+
+      tasks[1].resolve()
+      await tick()
+
+      expect(started).toEqual([0, 1, 2])
+      expect(pool.size).toBe(0)
+    })
+
+    it("should settle like the task", async () => {
+      const pool = new PromisePool(1)
+
+      await expect(pool.add(() => 42)).resolves.toBe(42)
+      await expect(pool.add(async () => "async")).resolves.toBe("async")
+      await expect(pool.add(() => {
+        throw new Error("sync")
+      })).rejects.toThrow("sync")
+    })
+
+    it("should start higher priorities first, and equal priorities in order", async () => {
+      const pool = new PromisePool(1)
+      const first = deferred()
+      const order: string[] = []
+
+      pool.add(() => first.promise)
+      pool.add(() => void order.push("low"), { priority: -1 })
+      pool.add(() => void order.push("a"))
+      pool.add(() => void order.push("high"), { priority: 10 })
+      pool.add(() => void order.push("b"))
+
+      first.resolve()
+      await pool.onIdle()
+
+      expect(order).toEqual(["high", "a", "b", "low"])
+    })
+
+    it("should pause and resume", async () => {
+      const pool = new PromisePool(2, { paused: true })
+      const fn = vi.fn()
+
+      pool.add(fn)
+      pool.add(fn)
+      await tick()
+
+      expect(pool.isPaused).toBe(true)
+      expect(fn).not.toHaveBeenCalled()
+
+      pool.resume()
+      await pool.onIdle()
+      expect(fn).toHaveBeenCalledTimes(2)
+
+      pool.pause()
+      pool.add(fn)
+      await tick()
+      expect(fn).toHaveBeenCalledTimes(2)
+    })
+
+    it("should resolve onIdle once nothing is queued or running", async () => {
+      const pool = new PromisePool(1)
+      const task = deferred()
+      const idle = vi.fn()
+
+      await pool.onIdle()
+
+      pool.add(() => task.promise)
+      pool.add(() => {})
+      pool.onIdle().then(idle)
+      await tick()
+      expect(idle).not.toHaveBeenCalled()
+
+      task.resolve()
+      await tick()
+      expect(idle).toHaveBeenCalledOnce()
+    })
+
+    it("should resolve onIdle after failed tasks too", async () => {
+      const pool = new PromisePool(2)
+      pool.add(() => Promise.reject(new Error("no"))).catch(() => {})
+
+      await expect(pool.onIdle()).resolves.toBeUndefined()
+    })
+
+    it("should give settled results with addSettled", async () => {
+      const pool = new PromisePool(2)
+      const error = new Error("no")
+
+      expect(await Promise.all([pool.addSettled(() => 1), pool.addSettled(() => Promise.reject(error))])).toEqual([
+        { status: "fulfilled", value: 1 },
+        { status: "rejected", reason: error },
+      ])
+    })
+
+    it("should reject queued tasks when cleared", async () => {
+      const pool = new PromisePool(1)
+      const running = deferred<string>()
+      const a = pool.add(() => running.promise)
+      const b = pool.add(() => "b")
+
+      pool.clear("cleared")
+      running.resolve("a")
+
+      await expect(a).resolves.toBe("a")
+      await expect(b).rejects.toBe("cleared")
+    })
+
+    it("should remove a queued task when its signal aborts", async () => {
+      const pool = new PromisePool(1)
+      const running = deferred()
+      const controller = new AbortController()
+      const fn = vi.fn()
+
+      pool.add(() => running.promise)
+      const task = pool.add(fn, { signal: controller.signal })
+      controller.abort("skip")
+
+      await expect(task).rejects.toSatisfy(abortedBy("skip"))
+      expect(pool.size).toBe(0)
+
+      running.resolve()
+      await pool.onIdle()
+      expect(fn).not.toHaveBeenCalled()
+    })
+
+    it("should reject a task whose signal is already aborted", async () => {
+      await expect(new PromisePool(1).add(() => 1, { signal: AbortSignal.abort("gone") })).rejects.toSatisfy(abortedBy("gone"))
+    })
+
+    it("should reject queued and new tasks, and abort running ones, when its signal aborts", async () => {
+      const controller = new AbortController()
+      const pool = new PromisePool(1, { signal: controller })
+      let taskSignal: AbortSignal | undefined
+
+      const running = pool.add(signal => new Promise((_, reject) => {
+        taskSignal = signal
+        signal.addEventListener("abort", () => reject(signal.reason))
+      }))
+      const queued = pool.add(() => 1)
+
+      controller.abort("stop")
+
+      await expect(running).rejects.toSatisfy(abortedBy("stop"))
+      await expect(queued).rejects.toSatisfy(abortedBy("stop"))
+      await expect(pool.add(() => 2)).rejects.toSatisfy(abortedBy("stop"))
+      expect(taskSignal?.aborted).toBe(true)
+      expect(pool.signal.aborted).toBe(true)
+    })
+
+    it("should only listen to its signal while it has tasks", async () => {
+      const controller = new AbortController()
+      const add = vi.spyOn(controller.signal, "addEventListener")
+      const remove = vi.spyOn(controller.signal, "removeEventListener")
+      const pool = new PromisePool(2, { signal: controller })
+
+      expect(add).not.toHaveBeenCalled()
+
+      await pool.add(() => 1)
+      await pool.onIdle()
+
+      expect(add).toHaveBeenCalledOnce()
+      expect(remove).toHaveBeenCalledWith("abort", add.mock.calls[0][1])
+    })
+
+    it("should notice its signal aborting while idle", async () => {
+      const controller = new AbortController()
+      const pool = new PromisePool(1, { signal: controller })
+
+      await pool.add(() => 1)
+      controller.abort("stop")
+
+      expect(pool.signal.aborted).toBe(true)
+      await expect(pool.add(() => 2)).rejects.toSatisfy(abortedBy("stop"))
+    })
+
+    it("should reject queued and new tasks with an AbortError when aborted", async () => {
+      const pool = new PromisePool(1)
+      const running = deferred()
+      pool.add(() => running.promise)
+      const queued = pool.add(() => 1)
+
+      pool.abort()
+
+      await expect(queued).rejects.toBeInstanceOf(AbortError)
+      await expect(pool.add(() => 2)).rejects.toBeInstanceOf(AbortError)
+      expect(pool.signal.reason).toBeInstanceOf(AbortError)
+      running.resolve()
+    })
+
+    it("should keep the reason given to abort as the cause", async () => {
+      const pool = new PromisePool(1)
+
+      pool.abort("x")
+
+      await expect(pool.add(() => 1)).rejects.toSatisfy(abortedBy("x"))
+    })
+
+    it("should start aborted with an aborted signal", async () => {
+      const pool = new PromisePool(1, { signal: AbortSignal.abort("gone") })
+
+      await expect(pool.add(() => 1)).rejects.toSatisfy(abortedBy("gone"))
+    })
+
+    it("should throw for an invalid concurrency", () => {
+      expect(() => new PromisePool(0)).toThrow(RangeError)
+      expect(() => new PromisePool(1.5)).toThrow(RangeError)
+      expect(() => new PromisePool(Infinity)).not.toThrow()
+    })
+  })
+
+  describe("mapLimit", () => {
+    it("should map items in order with limited concurrency", async () => {
+      let running = 0
+      let peak = 0
+
+      const results = await mapLimit([30, 10, 20, 0, 5], 2, async (ms, i) => {
+        peak = Math.max(peak, ++running)
+        await new Promise(resolve => setTimeout(resolve, ms))
+        running--
+        return `${i}:${ms}`
+      })
+
+      expect(results).toEqual(["0:30", "1:10", "2:20", "3:0", "4:5"])
+      expect(peak).toBe(2)
+    })
+
+    it("should accept any iterable", async () => {
+      expect(await mapLimit(new Set(["a", "b"]), 1, s => s.toUpperCase())).toEqual(["A", "B"])
+      expect(await mapLimit([], 3, s => s)).toEqual([])
+    })
+
+    it("should reject with the first error and start no more items", async () => {
+      const error = new Error("two")
+      const fn = vi.fn(async (n: number) => {
+        if (n === 2) {
+          throw error
+        }
+
+        return n
+      })
+
+      await expect(mapLimit([1, 2, 3, 4], 1, fn)).rejects.toBe(error)
+      await tick()
+      expect(fn.mock.calls.map(call => call[0])).toEqual([1, 2])
+    })
+
+    it("should abort running calls' signal after an error", async () => {
+      const signals: AbortSignal[] = []
+
+      const error = new Error("one")
+
+      await expect(mapLimit([1, 2], 2, async (n, _, signal) => {
+        signals.push(signal)
+
+        if (n === 1) {
+          throw error
+        }
+      })).rejects.toBe(error)
+
+      expect(signals[1].aborted).toBe(true)
+    })
+
+    it("should reject with an AbortError when the signal aborts", async () => {
+      const controller = new AbortController()
+      const promise = mapLimit([1, 2, 3], 1, () => new Promise(() => {}), { signal: controller.signal })
+
+      controller.abort("stop")
+      await expect(promise).rejects.toSatisfy(abortedBy("stop"))
+    })
+  })
+
+  describe("eachLimit", () => {
+    it("should resolve to settled results in order", async () => {
+      const error = new Error("odd")
+
+      expect(await eachLimit([1, 2, 3], 2, async n => {
+        if (n % 2) {
+          throw error
+        }
+
+        return n * 10
+      })).toEqual([
+        { status: "rejected", reason: error },
+        { status: "fulfilled", value: 20 },
+        { status: "rejected", reason: error },
+      ])
+    })
+
+    it("should reject unstarted items with an AbortError when the signal aborts", async () => {
+      const controller = new AbortController()
+      const first = deferred<number>()
+      const promise = eachLimit([1, 2], 1, n => n === 1 ? first.promise : n, { signal: controller.signal })
+
+      controller.abort("stop")
+      first.resolve(1)
+
+      expect(await promise).toEqual([
+        { status: "fulfilled", value: 1 },
+        { status: "rejected", reason: expect.objectContaining({ name: "AbortError", cause: "stop" }) },
+      ])
+    })
+  })
+})
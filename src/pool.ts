@@ -0,0 +1,277 @@
+import type { AbortInput } from "./async"
+import { toAbortError } from "./errors"
+import { tryMe } from "./promise"
+
+export interface PromisePoolOptions {
+  /** Start paused, so tasks queue until `resume()` */
+  paused?: boolean
+  /** Aborts the pool when aborted, rejecting queued tasks and new ones with an `AbortError` */
+  signal?: AbortInput
+}
+
+export interface PoolTaskOptions {
+  /** Tasks with a higher priority start first, tasks with the same priority start in order. Defaults to 0 */
+  priority?: number
+  /** Removes the task from the queue and rejects it with an `AbortError`, if aborted before the task starts */
+  signal?: AbortInput
+}
+
+/**
+ * A task, given the pool's signal.
+ */
+export type PoolTask<T> = (signal: AbortSignal) => T | Promise<T>
+
+interface QueuedTask {
+  priority: number
+  start(): void
+  reject(reason: unknown): void
+}
+
+/**
+ * Runs tasks with at most a given number at once, queueing the rest.
+ *
+ * @example
+ * const pool = new PromisePool(4)
+ * const uploads = files.map(file => pool.add(signal => upload(file, { signal })))
+ * await pool.onIdle()
+ */
+export class PromisePool {
+  private queue: QueuedTask[] = []
+  private active = 0
+  private paused: boolean
+  private idle: Array<() => void> = []
+  private controller = new AbortController()
+  private parentSignal?: AbortSignal
+  private onParentAbort = () => this.followParent()
+
+  /**
+   * @param concurrency - The most tasks to run at once
+   * @param options - Whether to start paused, and a signal that aborts the pool
+   * @throws {RangeError} If the concurrency is not a positive integer or Infinity
+   */
+  constructor(readonly concurrency: number, options: PromisePoolOptions = {}) {
+    if (!(Number.isInteger(concurrency) && concurrency > 0) && concurrency !== Infinity) {
+      throw new RangeError(`Invalid concurrency: ${concurrency}`)
+    }
+
+    this.parentSignal = options.signal instanceof AbortController ? options.signal.signal : options.signal
+    this.paused = options.paused ?? false
+    this.followParent()
+  }
+
+  /** The number of tasks waiting to start */
+  get size() {
+    return this.queue.length
+  }
+
+  /** The number of tasks running */
+  get pending() {
+    return this.active
+  }
+
+  /** Whether the pool is paused */
+  get isPaused() {
+    return this.paused
+  }
+
+  /** The pool's signal, aborted when the pool is */
+  get signal() {
+    this.followParent()
+    return this.controller.signal
+  }
+
+  /**
+   * Queues a task.
+   *
+   * @param task - The task, given the pool's signal
+   * @param options - The priority, and a signal that removes the task from the queue
+   * @returns A promise settling like the task
+   */
+  add<T>(task: PoolTask<T>, options: PoolTaskOptions = {}): Promise<T> {
+    const taskSignal = options.signal instanceof AbortController ? options.signal.signal : options.signal
+
+    return new Promise<T>((resolve, reject) => {
+      if (this.signal.aborted) {
+        return reject(toAbortError(this.signal.reason))
+      }
+
+      if (taskSignal?.aborted) {
+        return reject(toAbortError(taskSignal.reason))
+      }
+
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(queued), 1)
+        reject(toAbortError(taskSignal!.reason))
+        this.next()
+      }
+
+      const queued: QueuedTask = {
+        priority: options.priority ?? 0,
+        start: () => {
+          taskSignal?.removeEventListener("abort", onAbort)
+          this.active++
+
+          tryMe(task, this.signal)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--
+              this.next()
+            })
+        },
+        reject: reason => {
+          taskSignal?.removeEventListener("abort", onAbort)
+          reject(reason)
+        },
+      }
+
+      // After the last task with the same or a higher priority
+      const i = this.queue.findIndex(other => other.priority < queued.priority)
+      this.queue.splice(i === -1 ? this.queue.length : i, 0, queued)
+      taskSignal?.addEventListener("abort", onAbort, { once: true })
+      this.parentSignal?.addEventListener("abort", this.onParentAbort, { once: true })
+      this.next()
+    })
+  }
+
+  /**
+   * Queues a task, resolving to its settled result instead of rejecting, like `eachOf`.
+   *
+   * @param task - The task, given the pool's signal
+   * @param options - The priority, and a signal that removes the task from the queue
+   * @returns A promise resolving to a `PromiseSettledResult`
+   */
+  addSettled<T>(task: PoolTask<T>, options: PoolTaskOptions = {}): Promise<PromiseSettledResult<T>> {
+    return this.add(task, options).then(
+      value => ({ status: "fulfilled", value }),
+      reason => ({ status: "rejected", reason }),
+    )
+  }
+
+  /**
+   * Stops starting tasks. Running tasks carry on.
+   */
+  pause() {
+    this.paused = true
+  }
+
+  /**
+   * Starts tasks again after `pause()`.
+   */
+  resume() {
+    this.paused = false
+    this.next()
+  }
+
+  /**
+   * Rejects every queued task. Running tasks carry on.
+   * @param reason - The rejection reason
+   */
+  clear(reason: unknown = new Error("Task cleared from the pool")) {
+    this.queue.splice(0).forEach(queued => queued.reject(reason))
+    this.next()
+  }
+
+  /**
+   * Aborts the pool: queued tasks and tasks added later are rejected with an `AbortError`,
+   * and running tasks' signal is aborted.
+   * @param reason - The reason, kept as the AbortError's cause
+   */
+  abort(reason?: unknown) {
+    this.controller.abort(toAbortError(reason))
+    this.clear(this.signal.reason)
+  }
+
+  /**
+   * Waits until no tasks are queued or running.
+   * A paused pool with queued tasks isn't idle.
+   *
+   * @returns A promise resolving when the pool is idle
+   */
+  onIdle() {
+    return new Promise<void>(resolve => this.isIdle() ? resolve() : this.idle.push(resolve))
+  }
+
+  private isIdle() {
+    return this.active === 0 && this.queue.length === 0
+  }
+
+  // The options' signal is only listened to while tasks are queued or running, so a long-lived signal
+  // doesn't keep idle pools reachable. An abort while idle is picked up here instead.
+  private followParent() {
+    if (this.parentSignal?.aborted && !this.controller.signal.aborted) {
+      this.abort(this.parentSignal.reason)
+    }
+  }
+
+  private next() {
+    while (!this.paused && this.active < this.concurrency && this.queue.length) {
+      this.queue.shift()!.start()
+    }
+
+    if (this.isIdle()) {
+      this.parentSignal?.removeEventListener("abort", this.onParentAbort)
+      this.idle.splice(0).forEach(resolve => resolve())
+    }
+  }
+}
+
+/**
+ * Maps items with an async function, running at most a given number at once.
+ * Rejects with the first error, and no more items are started.
+ *
+ * @param items - The items
+ * @param concurrency - The most calls to run at once
+ * @param fn - The function, given an item, its index and the pool's signal
+ * @param options - A signal that stops starting items and rejects with an `AbortError`
+ * @returns A promise resolving to the results, in the items' order
+ * @throws {RangeError} If the concurrency is not a positive integer or Infinity
+ * @example
+ * const urls = await mapLimit(files, 4, file => upload(file))
+ */
+export async function mapLimit<T, R>(
+  items: Iterable<T>,
+  concurrency: number,
+  fn: (item: T, index: number, signal: AbortSignal) => R | Promise<R>,
+  options: Pick<PromisePoolOptions, "signal"> = {},
+): Promise<R[]> {
+  const pool = new PromisePool(concurrency, options)
+  let failure: { error: unknown } | undefined
+
+  return Promise.all(Array.from(items, (item, i) => pool.add(async signal => {
+    try {
+      return await fn(item, i, signal)
+    } catch (err) {
+      // Abort before the pool starts another item
+      failure ??= { error: err }
+      pool.abort(err)
+      throw err
+    }
+  }))).catch(err => {
+    // Aborting rejects the queued items with an AbortError first, so reject with the error that caused it
+    throw failure ? failure.error : err
+  })
+}
+
+/**
+ * Calls an async function for each item, running at most a given number at once,
+ * and resolves to the settled results like `eachOf`.
+ *
+ * @param items - The items
+ * @param concurrency - The most calls to run at once
+ * @param fn - The function, given an item, its index and the pool's signal
+ * @param options - A signal that stops starting items, which are then rejected with an `AbortError`
+ * @returns A promise resolving to a `PromiseSettledResult` for each item, in order
+ * @throws {RangeError} If the concurrency is not a positive integer or Infinity
+ * @example
+ * const results = await eachLimit(files, 4, file => upload(file))
+ * const failed = files.filter((_, i) => results[i].status === "rejected")
+ */
+export async function eachLimit<T, R>(
+  items: Iterable<T>,
+  concurrency: number,
+  fn: (item: T, index: number, signal: AbortSignal) => R | Promise<R>,
+  options: Pick<PromisePoolOptions, "signal"> = {},
+): Promise<PromiseSettledResult<R>[]> {
+  const pool = new PromisePool(concurrency, options)
+  return Promise.all(Array.from(items, (item, i) => pool.addSettled(signal => fn(item, i, signal))))
+}
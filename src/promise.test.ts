@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest"
-import { resultOf, allOf, anyOf, eachOf, firstOf, tryMe } from "./promise"
+import { AggregateFailure } from "./errors"
+import { resultOf, allOf, allProps, anyOf, eachOf, eachProps, firstOf, resultsOf, tryMe } from "./promise"
 
 
 describe("Promise Utilities", () => {
@@ -22,6 +23,21 @@ describe("Promise Utilities", () => {
       expect(result[0]).toBeUndefined()
       expect(result[1]).toBe(error)
     })
+
+    it("should make a null or undefined rejection an Error", async () => {
+      const result = await resultOf(Promise.reject())
+
+      expect(result.err).toBeInstanceOf(Error)
+      expect(result.err).toHaveProperty("cause", undefined)
+      expect((await resultOf(Promise.reject(null))).err).toEqual(new Error("null"))
+    })
+
+    it("should normalize rejections to Errors", async () => {
+      const error = new Error("test error")
+
+      expect((await resultOf(Promise.reject(error), { normalize: true })).err).toBe(error)
+      expect((await resultOf(Promise.reject("test error"), { normalize: true })).err).toEqual(new Error("test error", { cause: "test error" }))
+    })
   })
 
   describe("allOf", () => {
@@ -66,6 +82,16 @@ describe("Promise Utilities", () => {
         Promise.reject(error2)
       )).rejects.toBeInstanceOf(AggregateError)
     })
+
+    it("should reject with an AggregateFailure of normalized errors", async () => {
+      const error = new Error("error 1")
+      const failure = await anyOf(Promise.reject(error), Promise.reject("error 2")).catch(e => e)
+
+      expect(failure).toBeInstanceOf(AggregateFailure)
+      expect(failure.message).toBe("All promises were rejected")
+      expect(failure.errors[0]).toBe(error)
+      expect(failure.errors[1]).toEqual(new Error("error 2"))
+    })
   })
 
   describe("eachOf", () => {
@@ -102,6 +128,56 @@ describe("Promise Utilities", () => {
         new Promise(resolve => setTimeout(() => resolve("success"), 10))
       )).rejects.toBe(error)
     })
+
+    it("should normalize a rejection that isn't an Error", async () => {
+      await expect(firstOf(Promise.reject("test error"))).rejects.toEqual(new Error("test error"))
+    })
+  })
+
+  describe("allProps", () => {
+    it("should resolve with an object of results under the same keys", async () => {
+      const result = await allProps({
+        user: Promise.resolve({ name: "Ann" }),
+        posts: new Promise<string[]>(resolve => setTimeout(() => resolve(["hello"]), 5)),
+        count: 3,
+      })
+
+      expect(result).toEqual({ user: { name: "Ann" }, posts: ["hello"], count: 3 })
+      expect(Object.keys(result)).toEqual(["user", "posts", "count"])
+    })
+
+    it("should reject when any promise rejects", async () => {
+      const error = new Error("test error")
+
+      await expect(allProps({ a: Promise.resolve(1), b: Promise.reject(error) })).rejects.toBe(error)
+    })
+
+    it("should resolve an empty object", async () => {
+      expect(await allProps({})).toEqual({})
+    })
+  })
+
+  describe("eachProps", () => {
+    it("should return settled results under the same keys", async () => {
+      const error = new Error("test error")
+      const results = await eachProps({ a: Promise.resolve("success"), b: Promise.reject(error) })
+
+      expect(results.a).toEqual({ status: "fulfilled", value: "success" })
+      expect(results.b).toEqual({ status: "rejected", reason: error })
+    })
+  })
+
+  describe("resultsOf", () => {
+    it("should return a ResultPair for each key", async () => {
+      const error = new Error("test error")
+      const results = await resultsOf({ user: Promise.resolve("Ann"), posts: Promise.reject(error), count: 3 })
+
+      expect([...results.user]).toEqual(["Ann", undefined])
+      expect(results.user.val).toBe("Ann")
+      expect(results.posts.val).toBeUndefined()
+      expect(results.posts.err).toBe(error)
+      expect(results.count.val).toBe(3)
+    })
   })
 
   describe("tryMe", () => {
@@ -1,23 +1,5 @@
-export type ResultGetters<T, U> = { get val(): T, get err(): U }
-export type ResultPair<T, U> = readonly [T, U] & ResultGetters<T, U>
-export type PromiseResult<T, U extends {}> = ResultPair<T, undefined> | ResultPair<undefined, U>
-
-function result<T, U>(val: T, err: U) {
-  const res = [val, err] as const
-
-  return Object.defineProperties(res, {
-    val: {
-      get() {
-        return this[0]
-      }
-    },
-    err: {
-      get() {
-        return this[1]
-      }
-    },
-  }) as ResultPair<T, U>
-}
+import { AggregateFailure, toError } from "./errors"
+import { err, ok, type PromiseResult, type ResultOfOptions } from "./result"
 
 /**
  * A cleaner alternative to `try`/`catch` blocks that captures the rejection or resolution of a Promise as a ResultPair tuple.
@@ -37,19 +19,28 @@ function result<T, U>(val: T, err: U) {
  * r.val // undefined
  * r.err // "Error"
  * ```
+ * A rejection with `null` or `undefined` is always made an Error. With `normalize`, every error is, see `toError`:
+ * ```ts
+ * const r = await resultOf(Promise.reject("Error"), { normalize: true })
+ * r.err // Error("Error")
+ * ```
  *
  * @param p A Promise.
+ * @param options Whether to normalize errors.
  * @returns A new Promise that resolves to a ResultPair.
  */
-export async function resultOf<T, E extends {}>(p: Promise<T>): Promise<PromiseResult<T, E>> {
+export async function resultOf<T>(p: Promise<T>, options: ResultOfOptions & { normalize: true }): Promise<PromiseResult<T, Error>>
+export async function resultOf<T, E extends {}>(p: Promise<T>, options?: ResultOfOptions): Promise<PromiseResult<T, E>>
+export async function resultOf<T, E extends {}>(p: Promise<T>, options: ResultOfOptions = {}): Promise<PromiseResult<T, E>> {
   return p
-    .then((val) => result(val, undefined))
+    .then((val) => ok(val))
     // Typescript can't distinguish between `any` and `null | undefined`, because `any` includes `null | undefined`.
     // A promise error is always `any`, making the return type of `[T, undefined] | [undefined, any]`
     // ambiguous when trying to narrow the type with type checks or guards.
     // What we need is an `any - (null | undefined)` type, see: https://github.com/microsoft/TypeScript/issues/7648
-    // We can use `{}` in the interim.
-    .catch((err) => result(undefined, err as E))
+    // We can use `{}` in the interim. Since nothing enforces it at runtime, a `null` or `undefined` rejection
+    // is made an Error, or the ResultPair would read as a success.
+    .catch((e) => err((options.normalize || e == null ? toError(e) : e) as E))
 }
 
 /**
@@ -64,12 +55,14 @@ export async function allOf<T extends readonly unknown[] | []>(...values: T): Pr
 
 /**
  * Creates a Promise that is resolved with the first of the provided Promises to resolve,
- * or rejected with an `AggregateError` containing an array of rejection reasons if all of the given promises are rejected.
+ * or rejected with an `AggregateFailure` containing an array of rejection errors if all of the given promises are rejected.
  * @param values An array of Promises.
  * @returns A new Promise.
  */
 export async function anyOf<T extends readonly unknown[] | []>(...values: T): Promise<Awaited<T[number]>>{
-  return Promise.any(values)
+  return Promise.any(values).catch((e: AggregateError) => {
+    throw new AggregateFailure(e.errors, "All promises were rejected")
+  })
 }
 
 /**
@@ -84,12 +77,59 @@ export async function eachOf<T extends readonly unknown[] | []>(...values: T): P
 
 /**
  * Creates a Promise that is resolved or rejected with the state of the first of the provided Promises to resolve
- * or reject.
+ * or reject. A rejection is normalized with `toError`.
  * @param values An array of Promises.
  * @returns A new Promise.
  */
 export async function firstOf<T extends readonly unknown[] | []>(...values: T): Promise<Awaited<T[number]>>{
-  return Promise.race(values)
+  return Promise.race(values).catch((e) => {
+    throw toError(e)
+  })
+}
+
+/**
+ * Creates a Promise that is resolved with an object of results, keyed like the provided object of Promises,
+ * when all of them resolve, or rejected when any one of them is rejected, with the first rejection error.
+ *
+ * Example:
+ * ```ts
+ * const { user, posts } = await allProps({ user: getUser(id), posts: getPosts(id) })
+ * ```
+ *
+ * @param values An object of Promises or values.
+ * @returns A new Promise.
+ */
+export async function allProps<T extends object>(values: T): Promise<{ -readonly [K in keyof T]: Awaited<T[K]>; }> {
+  return fromEntries(values, await Promise.all(Object.values(values)))
+}
+
+/**
+ * Creates a Promise that is resolved with an object of `PromiseSettledResult` results, keyed like
+ * the provided object of Promises, when all of them have settled (resolved or rejected).
+ * @param values An object of Promises or values.
+ * @returns A new Promise.
+ */
+export async function eachProps<T extends object>(values: T): Promise<{ -readonly [K in keyof T]: PromiseSettledResult<Awaited<T[K]>>; }> {
+  return fromEntries(values, await Promise.allSettled(Object.values(values)))
+}
+
+/**
+ * Creates a Promise that is resolved with an object of ResultPair tuples, keyed like the provided object of Promises,
+ * when all of them have settled. Each tuple is made by `resultOf`, so failures can be checked key by key.
+ *
+ * Example:
+ * ```ts
+ * const { user, posts } = await resultsOf({ user: getUser(id), posts: getPosts(id) })
+ * if (posts.err) {
+ *   // Show the user without their posts
+ * }
+ * ```
+ *
+ * @param values An object of Promises or values.
+ * @returns A new Promise.
+ */
+export async function resultsOf<T extends object, E extends {} = {}>(values: T): Promise<{ -readonly [K in keyof T]: PromiseResult<Awaited<T[K]>, E>; }> {
+  return fromEntries(values, await Promise.all(Object.values(values).map(value => resultOf<unknown, E>(Promise.resolve(value)))))
 }
 
 /**
@@ -115,3 +155,8 @@ export async function tryMe<T, Args extends readonly unknown[] = []>(
 
   return Promise.resolve(callback as T)
 }
+
+// Pairs results with the keys of the object they came from, in Object.values order
+function fromEntries<R>(values: object, results: unknown[]) {
+  return Object.fromEntries(Object.keys(values).map((key, i) => [key, results[i]])) as R
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest"
+import { resultOf } from "./promise"
+import { andThen, collect, err, isErr, isOk, map, mapErr, match, ok, resultOfSync, unwrap, unwrapOr, type Result } from "./result"
+
+
+describe("Result Utilities", () => {
+  const parse = (text: string) => resultOfSync<unknown, SyntaxError>(() => JSON.parse(text))
+
+  describe("ok/err", () => {
+    it("should create successful ResultPairs", () => {
+      const res = ok(42)
+
+      expect([...res]).toEqual([42, undefined])
+      expect(res.val).toBe(42)
+      expect(res.err).toBeUndefined()
+    })
+
+    it("should create failed ResultPairs", () => {
+      const error = new Error("test error")
+      const res = err(error)
+
+      expect([...res]).toEqual([undefined, error])
+      expect(res.val).toBeUndefined()
+      expect(res.err).toBe(error)
+    })
+
+    it("should match the shape of resultOf", async () => {
+      const error = new Error("test error")
+
+      expect([...await resultOf(Promise.resolve(1))]).toEqual([...ok(1)])
+      expect([...await resultOf(Promise.reject(error))]).toEqual([...err(error)])
+    })
+  })
+
+  describe("isOk/isErr", () => {
+    it("should tell successful and failed ResultPairs apart", () => {
+      expect(isOk(ok(0))).toBe(true)
+      expect(isErr(ok(0))).toBe(false)
+      expect(isOk(err("error"))).toBe(false)
+      expect(isErr(err("error"))).toBe(true)
+    })
+
+    it("should count an undefined value as successful", () => {
+      expect(isOk(ok(undefined))).toBe(true)
+    })
+
+    it("should narrow the ResultPair", () => {
+      const res: Result<number, Error> = Math.random() < 2 ? ok(1) : err(new Error())
+
+      if (isOk(res)) {
+        const val: number = res.val
+        expect(val).toBe(1)
+      } else {
+        const error: Error = res.err
+        throw error
+      }
+    })
+  })
+
+  describe("map/mapErr", () => {
+    it("should transform values and pass errors through", () => {
+      const fn = vi.fn((n: number) => n * 2)
+
+      expect([...map(ok(2), fn)]).toEqual([4, undefined])
+      expect([...map(err<string>("error") as Result<number, string>, fn)]).toEqual([undefined, "error"])
+      expect(fn).toHaveBeenCalledOnce()
+    })
+
+    it("should transform errors and pass values through", () => {
+      const fn = vi.fn((e: string) => new Error(e))
+
+      expect(mapErr(err("bad"), fn).err).toEqual(new Error("bad"))
+      expect([...mapErr(ok(1) as Result<number, string>, fn)]).toEqual([1, undefined])
+      expect(fn).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe("andThen", () => {
+    it("should chain functions returning ResultPairs", () => {
+      expect(andThen(ok("[1]"), parse).val).toEqual([1])
+      expect(andThen(ok("{"), parse).err).toBeInstanceOf(SyntaxError)
+    })
+
+    it("should pass errors through without calling the function", () => {
+      const fn = vi.fn(parse)
+
+      expect(andThen(err(new TypeError("network")) as Result<string, TypeError>, fn).err).toBeInstanceOf(TypeError)
+      expect(fn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("unwrap/unwrapOr", () => {
+    it("should get values and throw errors", () => {
+      const error = new Error("test error")
+
+      expect(unwrap(ok("value"))).toBe("value")
+      expect(() => unwrap(err(error))).toThrow(error)
+    })
+
+    it("should fall back for errors", () => {
+      expect(unwrapOr(ok(1), 0)).toBe(1)
+      expect(unwrapOr(err("error"), 0)).toBe(0)
+    })
+  })
+
+  describe("match", () => {
+    it("should call the function for the outcome", () => {
+      const cases = { ok: (n: number) => `ok ${n}`, err: (e: string) => `err ${e}` }
+
+      expect(match(ok(1), cases)).toBe("ok 1")
+      expect(match(err("bad") as Result<number, string>, cases)).toBe("err bad")
+    })
+  })
+
+  describe("resultOfSync", () => {
+    it("should capture return values", () => {
+      expect([...parse('{"a":1}')]).toEqual([{ a: 1 }, undefined])
+    })
+
+    it("should capture thrown errors", () => {
+      const [val, error] = parse("{")
+
+      expect(val).toBeUndefined()
+      expect(error).toBeInstanceOf(SyntaxError)
+    })
+
+    it("should make a thrown null or undefined an Error, so the ResultPair isn't Ok", () => {
+      for (const value of [null, undefined]) {
+        const res = resultOfSync(() => {
+          throw value
+        })
+
+        expect(isErr(res)).toBe(true)
+        expect(res.err).toEqual(new Error(String(value)))
+        expect(() => unwrap(res)).toThrow(String(value))
+      }
+    })
+
+    it("should normalize thrown values to Errors", () => {
+      const error = resultOfSync(() => {
+        throw "bad"
+      }, { normalize: true }).err
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error?.message).toBe("bad")
+      expect(error?.cause).toBe("bad")
+    })
+  })
+
+  describe("collect", () => {
+    it("should combine values", () => {
+      expect([...collect([ok(1), ok(2), ok(3)])]).toEqual([[1, 2, 3], undefined])
+      expect(collect([]).val).toEqual([])
+    })
+
+    it("should return the first error", () => {
+      const results: Result<number, string>[] = [ok(1), err("first"), err("second")]
+
+      expect([...collect(results)]).toEqual([undefined, "first"])
+    })
+
+    it("should accept any iterable", () => {
+      function* results() {
+        yield ok("a")
+        yield ok("b")
+      }
+
+      expect(collect(results()).val).toEqual(["a", "b"])
+    })
+  })
+})
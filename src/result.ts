@@ -0,0 +1,207 @@
+import { toError } from "./errors"
+
+export type ResultGetters<T, U> = { get val(): T, get err(): U }
+export type ResultPair<T, U> = readonly [T, U] & ResultGetters<T, U>
+export type PromiseResult<T, U extends {}> = ResultPair<T, undefined> | ResultPair<undefined, U>
+
+export interface ResultOfOptions {
+  /** Normalizes errors with `toError`, so the error is always an Error */
+  normalize?: boolean
+}
+
+/** A successful ResultPair. */
+export type Ok<T> = ResultPair<T, undefined>
+/** A failed ResultPair. The error can't be `null` or `undefined`, so a missing error means success. */
+export type Err<E extends {}> = ResultPair<undefined, E>
+/** A ResultPair holding either a value or an error, as made by `resultOf` and `resultOfSync`. */
+export type Result<T, E extends {}> = Ok<T> | Err<E>
+
+function result<T, U>(val: T, err: U) {
+  const res = [val, err] as const
+
+  return Object.defineProperties(res, {
+    val: {
+      get() {
+        return this[0]
+      }
+    },
+    err: {
+      get() {
+        return this[1]
+      }
+    },
+  }) as ResultPair<T, U>
+}
+
+/**
+ * Creates a successful ResultPair.
+ * @param val The value.
+ * @returns A ResultPair of the value and undefined.
+ */
+export function ok<T>(val: T): Ok<T> {
+  return result(val, undefined)
+}
+
+/**
+ * Creates a failed ResultPair.
+ * @param err The error.
+ * @returns A ResultPair of undefined and the error.
+ */
+export function err<E extends {}>(err: E): Err<E> {
+  return result(undefined, err)
+}
+
+/**
+ * Checks whether a ResultPair is successful, narrowing it to `Ok`.
+ * @param res A ResultPair.
+ * @returns Whether the ResultPair holds no error.
+ */
+export function isOk<T, E extends {}>(res: Result<T, E>): res is Ok<T> {
+  return res[1] === undefined
+}
+
+/**
+ * Checks whether a ResultPair failed, narrowing it to `Err`.
+ * @param res A ResultPair.
+ * @returns Whether the ResultPair holds an error.
+ */
+export function isErr<T, E extends {}>(res: Result<T, E>): res is Err<E> {
+  return res[1] !== undefined
+}
+
+/**
+ * Transforms the value of a successful ResultPair, passing errors through.
+ *
+ * Example:
+ * ```ts
+ * map(ok(2), n => n * 2) // ok(4)
+ * map(err("Error"), n => n * 2) // err("Error")
+ * ```
+ *
+ * @param res A ResultPair.
+ * @param fn A function transforming the value.
+ * @returns A new ResultPair.
+ */
+export function map<T, U, E extends {}>(res: Result<T, E>, fn: (val: T) => U): Result<U, E> {
+  return isOk(res) ? ok(fn(res[0])) : res
+}
+
+/**
+ * Transforms the error of a failed ResultPair, passing values through.
+ * @param res A ResultPair.
+ * @param fn A function transforming the error.
+ * @returns A new ResultPair.
+ */
+export function mapErr<T, E extends {}, F extends {}>(res: Result<T, E>, fn: (err: E) => F): Result<T, F> {
+  return isErr(res) ? err(fn(res[1])) : res
+}
+
+/**
+ * Chains a function returning a ResultPair onto a successful ResultPair, passing errors through.
+ *
+ * Example:
+ * ```ts
+ * const parse = (text: string) => resultOfSync<unknown, SyntaxError>(() => JSON.parse(text))
+ * andThen(await resultOf(res.text()), parse)
+ * ```
+ *
+ * @param res A ResultPair.
+ * @param fn A function taking the value and returning a ResultPair.
+ * @returns The ResultPair from the function, or the original error.
+ */
+export function andThen<T, U, E extends {}, F extends {}>(res: Result<T, E>, fn: (val: T) => Result<U, F>): Result<U, E | F> {
+  return isOk(res) ? fn(res[0]) : res
+}
+
+/**
+ * Gets the value of a ResultPair, throwing its error if it failed.
+ * @param res A ResultPair.
+ * @returns The value.
+ * @throws The error, if the ResultPair failed.
+ */
+export function unwrap<T, E extends {}>(res: Result<T, E>): T {
+  if (isErr(res)) {
+    throw res[1]
+  }
+
+  return res[0] as T
+}
+
+/**
+ * Gets the value of a ResultPair, or a fallback if it failed.
+ * @param res A ResultPair.
+ * @param fallback The value to use if the ResultPair failed.
+ * @returns The value or the fallback.
+ */
+export function unwrapOr<T, U, E extends {}>(res: Result<T, E>, fallback: U): T | U {
+  return isOk(res) ? res[0] : fallback
+}
+
+/**
+ * Calls one of two functions, depending on whether a ResultPair succeeded or failed.
+ *
+ * Example:
+ * ```ts
+ * const message = match(await resultOf(save()), {
+ *   ok: () => "Saved",
+ *   err: e => `Failed: ${e}`,
+ * })
+ * ```
+ *
+ * @param res A ResultPair.
+ * @param cases Functions for the value and the error.
+ * @returns What the called function returns.
+ */
+export function match<T, E extends {}, A, B = A>(res: Result<T, E>, cases: { ok: (val: T) => A, err: (err: E) => B }): A | B {
+  return isOk(res) ? cases.ok(res[0]) : cases.err(res[1] as E)
+}
+
+/**
+ * The synchronous counterpart of `resultOf`, which captures the return value or thrown error of a function as a ResultPair.
+ * Like `resultOf`, a thrown `null` or `undefined` is made an Error.
+ *
+ * Example:
+ * ```ts
+ * const [data, error] = resultOfSync<unknown, SyntaxError>(() => JSON.parse(text))
+ * ```
+ *
+ * @param fn A function that may throw.
+ * @param options Whether to normalize errors.
+ * @returns A ResultPair.
+ */
+export function resultOfSync<T>(fn: () => T, options: ResultOfOptions & { normalize: true }): Result<T, Error>
+export function resultOfSync<T, E extends {}>(fn: () => T, options?: ResultOfOptions): Result<T, E>
+export function resultOfSync<T, E extends {}>(fn: () => T, options: ResultOfOptions = {}): Result<T, E> {
+  try {
+    return ok(fn())
+  } catch (e) {
+    // See `resultOf` for why the error is typed as `{}`, and why `null` and `undefined` are made Errors
+    return err((options.normalize || e == null ? toError(e) : e) as E)
+  }
+}
+
+/**
+ * Combines ResultPairs into one holding an array of their values, or the first error.
+ *
+ * Example:
+ * ```ts
+ * collect([ok(1), ok(2)]) // ok([1, 2])
+ * collect([ok(1), err("Error"), err("Other")]) // err("Error")
+ * ```
+ *
+ * @param results ResultPairs.
+ * @returns A new ResultPair.
+ */
+export function collect<T, E extends {}>(results: Iterable<Result<T, E>>): Result<T[], E> {
+  const vals: T[] = []
+
+  for (const res of results) {
+    if (isErr(res)) {
+      return res
+    }
+
+    vals.push(res[0])
+  }
+
+  return ok(vals)
+}
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { AbortError, RetryError } from "./errors"
+import { parseRetryAfter, retry, retryResult } from "./retry"
+
+
+describe("retry", () => {
+  // Whether an error is an AbortError caused by the given reason
+  const abortedBy = (cause: unknown) => (err: unknown) => err instanceof AbortError && err.cause === cause
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  // Fails the given number of times, then resolves with the attempt number
+  function flaky(failures: number, error: (attempt: number) => unknown = attempt => new Error(`fail ${attempt}`)) {
+    return vi.fn(async (attempt: number) => {
+      if (attempt <= failures) {
+        throw error(attempt)
+      }
+
+      return attempt
+    })
+  }
+
+  // Runs a retry to completion, recording the delays it waited
+  async function run<T>(promise: Promise<T>) {
+    const settled = promise.then(val => ({ val }), err => ({ err }))
+    await vi.runAllTimersAsync()
+    return settled
+  }
+
+  describe("retry", () => {
+    it("should resolve without retrying when the first attempt succeeds", async () => {
+      const fn = flaky(0)
+
+      expect(await retry(fn)).toBe(1)
+      expect(fn).toHaveBeenCalledOnce()
+    })
+
+    it("should retry until the function succeeds", async () => {
+      const fn = flaky(2)
+
+      expect(await run(retry(fn))).toEqual({ val: 3 })
+      expect(fn).toHaveBeenCalledTimes(3)
+    })
+
+    it("should accept synchronous functions", async () => {
+      let calls = 0
+      const fn = () => {
+        if (++calls < 2) {
+          throw new Error("sync")
+        }
+
+        return "done"
+      }
+
+      expect(await run(retry(fn))).toEqual({ val: "done" })
+    })
+
+    it("should throw a RetryError with every error when attempts run out", async () => {
+      const fn = flaky(10)
+      const { err } = await run(retry(fn, { maxAttempts: 4 })) as { err: RetryError }
+
+      expect(err).toBeInstanceOf(RetryError)
+      expect(err.message).toBe("Failed after 4 attempts")
+      expect(err.attempts).toBe(4)
+      expect(err.errors).toEqual([1, 2, 3, 4].map(i => new Error(`fail ${i}`)))
+      expect(err.cause).toEqual(new Error("fail 4"))
+      expect(fn).toHaveBeenCalledTimes(4)
+    })
+
+    it("should rethrow an error shouldRetry declines on the last attempt", async () => {
+      const fn = flaky(10, () => ({ status: 404 }))
+
+      expect(await run(retry(fn, { maxAttempts: 1, shouldRetry: () => false }))).toEqual({ err: { status: 404 } })
+    })
+
+    it("should stop when shouldRetry declines", async () => {
+      const fn = flaky(10, attempt => ({ status: attempt === 1 ? 503 : 404 }))
+      const shouldRetry = vi.fn((err: unknown) => (err as { status: number }).status >= 500)
+
+      expect(await run(retry(fn, { maxAttempts: 5, shouldRetry }))).toEqual({ err: { status: 404 } })
+      expect(shouldRetry.mock.calls).toEqual([[{ status: 503 }, 1], [{ status: 404 }, 2]])
+    })
+
+    it("should back off exponentially", async () => {
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(4), { maxAttempts: 5, baseDelay: 100, jitter: false, onRetry }))
+      expect(onRetry.mock.calls.map(call => call[2])).toEqual([100, 200, 400, 800])
+    })
+
+    it("should back off linearly", async () => {
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(3), { maxAttempts: 5, backoff: "linear", baseDelay: 50, jitter: false, onRetry }))
+      expect(onRetry.mock.calls.map(call => call[2])).toEqual([50, 100, 150])
+    })
+
+    it("should cap delays at maxDelay", async () => {
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(4), { maxAttempts: 5, baseDelay: 100, maxDelay: 300, jitter: false, onRetry }))
+      expect(onRetry.mock.calls.map(call => call[2])).toEqual([100, 200, 300, 300])
+    })
+
+    it("should jitter delays between 0 and the backoff", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5)
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(2), { baseDelay: 100, onRetry }))
+      expect(onRetry.mock.calls.map(call => call[2])).toEqual([50, 100])
+    })
+
+    it("should use decorrelated jitter", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5)
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(3), { maxAttempts: 4, backoff: "decorrelated", baseDelay: 100, onRetry }))
+      // Each delay is halfway between the base delay and three times the previous delay
+      expect(onRetry.mock.calls.map(call => call[2])).toEqual([100, 200, 350])
+    })
+
+    it("should use a custom backoff", async () => {
+      const onRetry = vi.fn()
+      const backoff = vi.fn((attempt: number) => attempt * 7)
+
+      await run(retry(flaky(2), { backoff, onRetry }))
+      expect(onRetry.mock.calls.map(call => call[2])).toEqual([7, 14])
+      expect(backoff.mock.calls).toEqual([[1, 0], [2, 7]])
+    })
+
+    it("should wait for the delay before retrying", async () => {
+      const fn = flaky(1)
+      retry(fn, { baseDelay: 100, jitter: false })
+
+      await vi.advanceTimersByTimeAsync(99)
+      expect(fn).toHaveBeenCalledOnce()
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fn).toHaveBeenCalledTimes(2)
+    })
+
+    it("should pass the error, attempt and delay to onRetry", async () => {
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(1), { baseDelay: 100, jitter: false, onRetry }))
+      expect(onRetry).toHaveBeenCalledWith(new Error("fail 1"), 1, 100)
+    })
+
+    it("should use a delay asked for by the error", async () => {
+      const onRetry = vi.fn()
+
+      await run(retry(flaky(1, () => ({ retryAfter: 5000 })), { onRetry }))
+      expect(onRetry.mock.calls[0][2]).toBe(5000)
+    })
+
+    it("should use a custom retryAfter", async () => {
+      const onRetry = vi.fn()
+      const retryAfter = (err: unknown) => parseRetryAfter((err as Response).headers.get("Retry-After"))
+      const response = new Response(null, { status: 429, headers: { "Retry-After": "3" } })
+
+      await run(retry(flaky(1, () => response), { retryAfter, onRetry }))
+      expect(onRetry.mock.calls[0][2]).toBe(3000)
+    })
+
+    it("should not retry when the next delay would pass maxElapsed", async () => {
+      const fn = flaky(10)
+      const onRetry = vi.fn()
+
+      const { err } = await run(retry(fn, { maxAttempts: 10, baseDelay: 100, jitter: false, maxElapsed: 500, onRetry })) as { err: RetryError }
+
+      expect(err).toBeInstanceOf(RetryError)
+      expect(err.cause).toEqual(new Error("fail 3"))
+      // Waits of 100 and 200 fit, but a further 400 would end at 700ms
+      expect(onRetry).toHaveBeenCalledTimes(2)
+    })
+
+    it("should reject with an AbortError when the signal aborts while waiting", async () => {
+      const controller = new AbortController()
+      const fn = flaky(10)
+      const promise = retry(fn, { signal: controller.signal, baseDelay: 1000, jitter: false })
+      const settled = promise.catch(err => err)
+
+      await vi.advanceTimersByTimeAsync(500)
+      controller.abort("stop")
+
+      expect(abortedBy("stop")(await settled)).toBe(true)
+      expect(fn).toHaveBeenCalledOnce()
+    })
+
+    it("should not call the function with an aborted signal", async () => {
+      const fn = flaky(0)
+
+      await expect(retry(fn, { signal: AbortSignal.abort("gone") })).rejects.toSatisfy(abortedBy("gone"))
+      expect(fn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("retryResult", () => {
+    it("should resolve to the value", async () => {
+      const result = await run(retryResult(flaky(1)))
+
+      expect("val" in result && result.val.val).toBe(2)
+      expect("val" in result && result.val.err).toBeUndefined()
+    })
+
+    it("should resolve to the error instead of rejecting", async () => {
+      const result = await run(retryResult(flaky(10), { maxAttempts: 2 }))
+
+      expect("val" in result && result.val.val).toBeUndefined()
+      expect("val" in result && result.val.err).toBeInstanceOf(RetryError)
+    })
+  })
+
+  describe("parseRetryAfter", () => {
+    it("should parse seconds", () => {
+      expect(parseRetryAfter("120")).toBe(120_000)
+      expect(parseRetryAfter(" 0 ")).toBe(0)
+    })
+
+    it("should parse an HTTP date", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT")
+
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30_000)
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0)
+    })
+
+    it("should return undefined for a missing or invalid header", () => {
+      expect(parseRetryAfter(null)).toBeUndefined()
+      expect(parseRetryAfter("")).toBeUndefined()
+      expect(parseRetryAfter("soon")).toBeUndefined()
+      expect(parseRetryAfter("-5")).toBeUndefined()
+    })
+  })
+})
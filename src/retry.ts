@@ -0,0 +1,157 @@
+import { wait, type AbortInput } from "./async"
+import { RetryError, toAbortError } from "./errors"
+import { resultOf, tryMe } from "./promise"
+import type { PromiseResult } from "./result"
+
+/**
+ * How the delay between attempts grows:
+ * `exponential` doubles it, `linear` adds the base delay, and `decorrelated` picks it at random
+ * between the base delay and three times the previous delay.
+ * A function gets the attempt that failed, from 1, and the previous delay.
+ */
+export type BackoffStrategy = "exponential" | "linear" | "decorrelated" | ((attempt: number, previousDelay: number) => number)
+
+export interface RetryOptions {
+  /** The most attempts, including the first, defaults to 3 */
+  maxAttempts?: number
+  /** The most milliseconds to spend, retries that would wait past it are not made. Defaults to no limit */
+  maxElapsed?: number
+  /** How the delay grows, defaults to `exponential` */
+  backoff?: BackoffStrategy
+  /** The first delay in milliseconds, defaults to 100 */
+  baseDelay?: number
+  /** The longest backoff delay in milliseconds, defaults to 30 seconds */
+  maxDelay?: number
+  /** Whether to randomise exponential and linear delays between 0 and their value, defaults to true */
+  jitter?: boolean
+  /** Decides whether to retry after an error, defaults to always */
+  shouldRetry?: (err: unknown, attempt: number) => boolean | Promise<boolean>
+  /** Gets a delay in milliseconds asked for by the error, e.g. from a Retry-After header, which replaces the backoff. Defaults to a numeric `retryAfter` property */
+  retryAfter?: (err: unknown) => number | undefined
+  /** Called before waiting to retry */
+  onRetry?: (err: unknown, attempt: number, delay: number) => void
+  /** Stops retrying when aborted, rejecting with an `AbortError` */
+  signal?: AbortInput
+}
+
+/**
+ * Calls a function until it succeeds, waiting longer between each attempt.
+ * When attempts or time run out it throws a `RetryError`, and when `shouldRetry` declines it rethrows the error.
+ *
+ * @param fn - The function to call, with the attempt number from 1
+ * @param options - The limits, backoff, hooks and signal
+ * @returns A promise resolving to the function's result
+ * @throws {RetryError} If every attempt allowed failed, with the last error as the cause
+ * @throws {AbortError} If the signal aborts
+ * @throws The function's error, if `shouldRetry` declines it
+ * @example
+ * const res = await retry(() => fetchJson(url), {
+ *   maxAttempts: 5,
+ *   shouldRetry: err => err instanceof HttpError && err.status >= 500,
+ *   onRetry: (err, attempt, delay) => console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`),
+ * })
+ */
+export async function retry<T>(fn: (attempt: number) => T | Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    maxAttempts = 3,
+    maxElapsed = Infinity,
+    backoff = "exponential",
+    baseDelay = 100,
+    maxDelay = 30_000,
+    jitter = true,
+    shouldRetry = () => true,
+    retryAfter = defaultRetryAfter,
+    onRetry,
+    signal,
+  } = options
+  const abortSignal = signal instanceof AbortController ? signal.signal : signal
+  const start = Date.now()
+  const errors: unknown[] = []
+  let delay = 0
+
+  for (let attempt = 1; ; attempt++) {
+    if (abortSignal?.aborted) {
+      throw toAbortError(abortSignal.reason)
+    }
+
+    try {
+      return await tryMe(fn, attempt)
+    } catch (err) {
+      errors.push(err)
+
+      if (!await shouldRetry(err, attempt)) {
+        throw err
+      }
+
+      if (attempt >= maxAttempts) {
+        throw new RetryError(errors)
+      }
+
+      const asked = retryAfter(err)
+      delay = asked !== undefined && asked >= 0 ? asked : nextDelay(backoff, attempt, delay, baseDelay, maxDelay, jitter)
+
+      if (Date.now() - start + delay > maxElapsed) {
+        throw new RetryError(errors)
+      }
+
+      onRetry?.(err, attempt, delay)
+    }
+
+    await wait(delay, abortSignal)
+  }
+}
+
+/**
+ * Like `retry`, but resolves to a ResultPair of the result or the error instead of rejecting.
+ *
+ * @param fn - The function to call, with the attempt number from 1
+ * @param options - The limits, backoff, hooks and signal
+ * @returns A promise resolving to a ResultPair
+ * @example
+ * const [res, err] = await retryResult(() => fetch(url), { maxAttempts: 5 })
+ */
+export async function retryResult<T, E extends {}>(fn: (attempt: number) => T | Promise<T>, options: RetryOptions = {}): Promise<PromiseResult<T, E>> {
+  return resultOf<T, E>(retry(fn, options))
+}
+
+/**
+ * Parses a Retry-After header, given in seconds or as an HTTP date.
+ *
+ * @param value - The header value
+ * @param now - The current time in milliseconds since the epoch
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ * @example
+ * parseRetryAfter(res.headers.get("Retry-After")) // returns e.g. 120000 for "120"
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()) {
+  if (!value?.trim()) {
+    return
+  }
+
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value) * 1000
+  }
+
+  // HTTP dates start with the day name, and Date.parse is too lenient to check anything else
+  const date = /^\s*[a-z]{3},/i.test(value) ? Date.parse(value) : NaN
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+function nextDelay(backoff: BackoffStrategy, attempt: number, previous: number, base: number, max: number, jitter: boolean) {
+  if (typeof backoff === "function") {
+    return backoff(attempt, previous)
+  }
+
+  if (backoff === "decorrelated") {
+    // Decorrelated jitter, see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+    return Math.min(max, base + Math.random() * (Math.max(base, previous * 3) - base))
+  }
+
+  const delay = Math.min(max, backoff === "linear" ? base * attempt : base * 2 ** (attempt - 1))
+  return jitter ? Math.random() * delay : delay
+}
+
+function defaultRetryAfter(err: unknown) {
+  const value = (err as { retryAfter?: unknown } | undefined)?.retryAfter
+  return typeof value === "number" ? value : undefined
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest"
+import { sniffType } from "./sniff"
+
+
+describe("sniffType", () => {
+  const bytes = (...parts: Array<string | number[]>) =>
+    new Uint8Array(parts.flatMap(p => typeof p === "string" ? Array.from(p, c => c.charCodeAt(0)) : p))
+
+  it.each([
+    ["image/png", bytes([0x89], "PNG\r\n\x1a\n", [0, 0, 0, 13])],
+    ["image/jpeg", bytes([0xff, 0xd8, 0xff, 0xe0])],
+    ["image/gif", bytes("GIF89a", [1, 0])],
+    ["image/gif", bytes("GIF87a")],
+    ["image/webp", bytes("RIFF", [0x24, 0, 0, 0], "WEBPVP8 ")],
+    ["audio/wav", bytes("RIFF", [0x24, 0, 0, 0], "WAVEfmt ")],
+    ["application/pdf", bytes("%PDF-1.7\n")],
+    ["application/zip", bytes("PK", [3, 4, 20, 0])],
+    ["application/zip", bytes("PK", [5, 6], [0, 0, 0, 0])],
+    ["application/gzip", bytes([0x1f, 0x8b, 0x08, 0])],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypisom")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypiso2")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypmp41")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypmp42")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypavc1")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypdash")],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypM4V ")],
+    ["audio/mp4", bytes([0, 0, 0, 0x20], "ftypM4A ")],
+    ["image/avif", bytes([0, 0, 0, 0x20], "ftypavif")],
+    ["image/avif", bytes([0, 0, 0, 0x20], "ftypavis")],
+    ["image/heic", bytes([0, 0, 0, 0x20], "ftypheic")],
+    ["image/heic", bytes([0, 0, 0, 0x20], "ftypheix")],
+    ["image/heif", bytes([0, 0, 0, 0x20], "ftypmif1")],
+    ["video/quicktime", bytes([0, 0, 0, 0x20], "ftypqt  ")],
+    ["video/webm", bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81, 0x01, 0x42, 0x82, 0x84], "webm")],
+    ["video/x-matroska", bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x88], "matroska")],
+  ])("should detect %s", (type, data) => {
+    expect(sniffType(data)).toBe(type)
+  })
+
+  it("should not guess the type of an ISO base media file with an unknown brand", () => {
+    expect(sniffType(bytes([0, 0, 0, 0x20], "ftypcrx "))).toBeUndefined()
+    expect(sniffType(bytes([0, 0, 0, 0x20], "ftyp"))).toBeUndefined()
+  })
+
+  it("should detect SVG and XML", () => {
+    expect(sniffType(bytes("<svg xmlns=\"http://www.w3.org/2000/svg\"></svg>"))).toBe("image/svg+xml")
+    expect(sniffType(bytes("  <?xml version=\"1.0\"?>\n<svg>"))).toBe("image/svg+xml")
+    expect(sniffType(bytes("<!DOCTYPE svg PUBLIC \"-//W3C//DTD SVG 1.1//EN\">"))).toBe("image/svg+xml")
+    expect(sniffType(bytes("<?xml version=\"1.0\"?><feed></feed>"))).toBe("application/xml")
+  })
+
+  it("should detect JSON", () => {
+    expect(sniffType(bytes("{\"a\": 1}"))).toBe("application/json")
+    expect(sniffType(bytes("\n  [1, 2]"))).toBe("application/json")
+    expect(sniffType(bytes("[]"))).toBe("application/json")
+    expect(sniffType(bytes("{}"))).toBe("application/json")
+    expect(sniffType(bytes("[link](url)"))).toBeUndefined()
+  })
+
+  it("should detect text with a byte order mark", () => {
+    expect(sniffType(bytes([0xef, 0xbb, 0xbf], "hello"))).toBe("text/plain;charset=utf-8")
+    expect(sniffType(bytes([0xef, 0xbb, 0xbf], "{\"a\": 1}"))).toBe("application/json;charset=utf-8")
+    expect(sniffType(bytes([0xff, 0xfe], [0x3c, 0, 0x73, 0, 0x76, 0, 0x67, 0, 0x3e, 0]))).toBe("image/svg+xml;charset=utf-16le")
+    expect(sniffType(bytes([0xfe, 0xff], [0, 0x68, 0, 0x69]))).toBe("text/plain;charset=utf-16be")
+  })
+
+  it("should return undefined for unknown or empty data", () => {
+    expect(sniffType(new Uint8Array())).toBeUndefined()
+    expect(sniffType(bytes("plain text"))).toBeUndefined()
+    expect(sniffType(bytes([0, 1, 2, 3, 4, 5, 6, 7, 8]))).toBeUndefined()
+    expect(sniffType(bytes("{\u0000\"a\"}"))).toBeUndefined()
+  })
+
+  it("should only look within a view's window", () => {
+    const backing = bytes("xx", [0xff, 0xd8, 0xff])
+
+    expect(sniffType(backing.subarray(2))).toBe("image/jpeg")
+    expect(sniffType(backing.buffer)).toBeUndefined()
+  })
+})
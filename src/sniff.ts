@@ -0,0 +1,122 @@
+import { decodeText, detectBOM } from "./charsets"
+import { toBytes } from "./transcoders"
+
+/**
+ * How many leading bytes `sniffType` looks at, so blobs only need this much read.
+ */
+export const SNIFF_LENGTH = 1024
+
+interface Signature {
+  type: string
+  offset?: number
+  // Byte values, with -1 matching any byte
+  bytes: number[]
+}
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0))
+const ANY4 = [-1, -1, -1, -1]
+
+// Checked in order, so more specific signatures come first
+const SIGNATURES: Signature[] = [
+  { type: "image/png", bytes: [0x89, ...ascii("PNG\r\n\x1a\n")] },
+  { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { type: "image/gif", bytes: ascii("GIF87a") },
+  { type: "image/gif", bytes: ascii("GIF89a") },
+  { type: "image/webp", bytes: [...ascii("RIFF"), ...ANY4, ...ascii("WEBP")] },
+  { type: "audio/wav", bytes: [...ascii("RIFF"), ...ANY4, ...ascii("WAVE")] },
+  { type: "application/pdf", bytes: ascii("%PDF-") },
+  { type: "application/zip", bytes: ascii("PK\x03\x04") },
+  { type: "application/zip", bytes: ascii("PK\x05\x06") },
+  { type: "application/zip", bytes: ascii("PK\x07\x08") },
+  { type: "application/gzip", bytes: [0x1f, 0x8b, 0x08] },
+]
+
+const EBML = [0x1a, 0x45, 0xdf, 0xa3]
+const FTYP = ascii("ftyp")
+
+// ISO base media files (MP4, QuickTime, AVIF, HEIF) share the "ftyp" box, whose major brand tells them apart
+const BRANDS: Record<string, string> = {
+  "avif": "image/avif",
+  "avis": "image/avif",
+  "heic": "image/heic",
+  "heix": "image/heic",
+  "mif1": "image/heif",
+  "qt  ": "video/quicktime",
+  "M4A ": "audio/mp4",
+  "isom": "video/mp4",
+  "iso2": "video/mp4",
+  "mp41": "video/mp4",
+  "mp42": "video/mp4",
+  "avc1": "video/mp4",
+  "dash": "video/mp4",
+  "M4V ": "video/mp4",
+}
+
+/**
+ * Detects the MIME type of data from its leading bytes.
+ * Recognises PNG, JPEG, GIF, WebP, AVIF, HEIC/HEIF, PDF, ZIP, gzip, MP4, QuickTime, WebM, WAV, SVG, XML and JSON,
+ * and text with a UTF-8 or UTF-16 byte order mark, whose charset is added to the type.
+ *
+ * @param buf - The data, or at least its first `SNIFF_LENGTH` bytes
+ * @returns The MIME type, or undefined if the format is not recognised
+ * @example
+ * sniffType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) // returns "image/png"
+ * sniffType(new TextEncoder().encode('{"a": 1}')) // returns "application/json"
+ */
+export function sniffType(buf: ArrayBuffer | ArrayBufferView): string | undefined {
+  const bytes = toBytes(buf).subarray(0, SNIFF_LENGTH)
+  const signature = SIGNATURES.find(sig => matches(bytes, sig.bytes, sig.offset))
+
+  if (signature) {
+    return signature.type
+  }
+
+  if (matches(bytes, FTYP, 4)) {
+    return bytes.length >= 12 ? BRANDS[String.fromCharCode(...bytes.subarray(8, 12))] : undefined
+  }
+
+  if (matches(bytes, EBML)) {
+    // WebM is the Matroska container with a "webm" DocType element
+    return indexOf(bytes, [0x42, 0x82, -1, ...ascii("webm")]) !== -1 ? "video/webm" : "video/x-matroska"
+  }
+
+  const bom = detectBOM(bytes)
+
+  if (bom) {
+    return `${sniffText(decodeText(bytes, bom)) ?? "text/plain"};charset=${bom}`
+  }
+
+  // Without a byte order mark, NULs mean binary data
+  return bytes.includes(0) ? undefined : sniffText(decodeText(bytes, "utf-8"))
+}
+
+function sniffText(text: string) {
+  text = text.trimStart()
+
+  if (/^<\?xml[\s?]/i.test(text)) {
+    return /<svg[\s>]/i.test(text) ? "image/svg+xml" : "application/xml"
+  }
+
+  if (/^(<!doctype svg[\s>]|<svg[\s>])/i.test(text)) {
+    return "image/svg+xml"
+  }
+
+  // An object starting with a key or empty, or an array starting with a value or empty
+  if (/^(\{\s*["}]|\[\s*[-\d"{[\]tfn])/.test(text)) {
+    return "application/json"
+  }
+}
+
+function matches(bytes: Uint8Array, pattern: number[], offset = 0) {
+  return bytes.length >= offset + pattern.length && pattern.every((b, i) => b === -1 || bytes[offset + i] === b)
+}
+
+function indexOf(bytes: Uint8Array, pattern: number[]) {
+  for (let i = 0; i + pattern.length <= bytes.length; i++) {
+    if (matches(bytes, pattern, i)) {
+      return i
+    }
+  }
+
+  return -1
+}
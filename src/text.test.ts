@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest"
+import { $base64, $text } from "./text"
+import { DecodeError } from "./transcoders"
+
+
+describe("$text", () => {
+  const bytes = (...values: number[]) => new Uint8Array(values)
+
+  describe("toBuffer", () => {
+    it("should encode UTF-8 by default", () => {
+      expect($text.toBuffer("Hé")).toEqual(bytes(0x48, 0xc3, 0xa9))
+    })
+
+    it("should encode UTF-16 in either byte order", () => {
+      expect($text.toBuffer("Hé😀", "utf-16le")).toEqual(bytes(0x48, 0, 0xe9, 0, 0x3d, 0xd8, 0x00, 0xde))
+      expect($text.toBuffer("Hé😀", "utf-16be")).toEqual(bytes(0, 0x48, 0, 0xe9, 0xd8, 0x3d, 0xde, 0x00))
+    })
+
+    it("should write a byte order mark when asked", () => {
+      expect($text.toBuffer("H", "utf-8", { bom: true })).toEqual(bytes(0xef, 0xbb, 0xbf, 0x48))
+      expect($text.toBuffer("H", "utf-16le", { bom: true })).toEqual(bytes(0xff, 0xfe, 0x48, 0))
+      expect($text.toBuffer("H", "utf-16be", { bom: true })).toEqual(bytes(0xfe, 0xff, 0, 0x48))
+      expect($text.toBuffer("H", "latin1", { bom: true })).toEqual(bytes(0x48))
+    })
+
+    it("should encode Latin-1", () => {
+      expect($text.toBuffer("Héÿ\u0080", "latin1")).toEqual(bytes(0x48, 0xe9, 0xff, 0x80))
+    })
+
+    it("should encode Windows-1252", () => {
+      expect($text.toBuffer("€“é”", "windows-1252")).toEqual(bytes(0x80, 0x93, 0xe9, 0x94))
+    })
+
+    it("should replace unencodable characters with '?'", () => {
+      expect($text.toBuffer("a€b", "latin1")).toEqual(bytes(0x61, 0x3f, 0x62))
+      expect($text.toBuffer("a\u0081b", "windows-1252")).toEqual(bytes(0x61, 0x3f, 0x62))
+    })
+
+    it("should throw on unencodable characters when fatal", () => {
+      expect(() => $text.toBuffer("a€b", "latin1", { fatal: true })).toThrow("Cannot encode U+20AC at offset 1 in latin1")
+      expect(() => $text.toBuffer("a😀", "windows-1252", { fatal: true })).toThrow(RangeError)
+      expect(() => $text.toBuffer("a\ud800b", "utf-8", { fatal: true })).toThrow("Cannot encode U+D800 at offset 1 in utf-8")
+    })
+  })
+
+  describe("fromBuffer", () => {
+    it("should decode UTF-8 by default", () => {
+      expect($text.fromBuffer(bytes(0x48, 0xc3, 0xa9))).toBe("Hé")
+    })
+
+    it("should detect and strip byte order marks", () => {
+      expect($text.fromBuffer(bytes(0xef, 0xbb, 0xbf, 0x48))).toBe("H")
+      expect($text.fromBuffer(bytes(0xff, 0xfe, 0x48, 0, 0xe9, 0))).toBe("Hé")
+      expect($text.fromBuffer(bytes(0xfe, 0xff, 0, 0x48, 0, 0xe9))).toBe("Hé")
+    })
+
+    it("should keep the byte order mark when asked", () => {
+      expect($text.fromBuffer(bytes(0xff, 0xfe, 0x48, 0), "utf-16le", { keepBOM: true })).toBe("﻿H")
+    })
+
+    it("should decode UTF-16 in either byte order", () => {
+      expect($text.fromBuffer(bytes(0x3d, 0xd8, 0x00, 0xde), "utf-16le")).toBe("😀")
+      expect($text.fromBuffer(bytes(0xd8, 0x3d, 0xde, 0x00), "utf-16be")).toBe("😀")
+    })
+
+    it("should decode Latin-1 as code points 0-255", () => {
+      expect($text.fromBuffer(bytes(0x48, 0x80, 0xe9), "latin1")).toBe("H\u0080é")
+    })
+
+    it("should decode Windows-1252", () => {
+      expect($text.fromBuffer(bytes(0x80, 0x93, 0xe9, 0x94, 0x81), "windows-1252")).toBe("€“é”\u0081")
+    })
+
+    it("should round-trip every encoding", () => {
+      const text = "Café à la crème"
+
+      for (const encoding of ["utf-8", "utf-16le", "utf-16be", "latin1", "windows-1252"] as const) {
+        expect($text.fromBuffer($text.toBuffer(text, encoding, { bom: true }), encoding)).toBe(text)
+      }
+    })
+
+    it("should replace malformed input with U+FFFD", () => {
+      expect($text.fromBuffer(bytes(0x48, 0xff, 0x49))).toBe("H�I")
+    })
+
+    it("should throw a DecodeError with the offset of malformed input when fatal", () => {
+      const offsetOf = (fn: () => unknown) => {
+        try {
+          fn()
+        } catch (err) {
+          expect(err).toBeInstanceOf(DecodeError)
+          return (err as DecodeError).offset
+        }
+      }
+
+      expect(offsetOf(() => $text.fromBuffer(bytes(0x48, 0x49, 0xff, 0x49), "utf-8", { fatal: true }))).toBe(2)
+      expect(offsetOf(() => $text.fromBuffer(bytes(0x48, 0xe2, 0x82), "utf-8", { fatal: true }))).toBe(3)
+      expect(offsetOf(() => $text.fromBuffer(bytes(0x48, 0, 0x00, 0xdc), "utf-16le", { fatal: true }))).toBe(3)
+      expect(offsetOf(() => $text.fromBuffer(bytes(0, 0x48, 0), "utf-16be", { fatal: true }))).toBe(3)
+      expect(offsetOf(() => $text.fromBuffer(bytes(0x48, 0x81), "windows-1252", { fatal: true }))).toBe(1)
+    })
+  })
+
+  describe("detectBOM", () => {
+    it("should detect UTF byte order marks", () => {
+      expect($text.detectBOM(bytes(0xef, 0xbb, 0xbf))).toBe("utf-8")
+      expect($text.detectBOM(bytes(0xff, 0xfe))).toBe("utf-16le")
+      expect($text.detectBOM(bytes(0xfe, 0xff))).toBe("utf-16be")
+      expect($text.detectBOM(bytes(0x48, 0x49))).toBeUndefined()
+      expect($text.detectBOM(bytes())).toBeUndefined()
+    })
+  })
+
+  describe("createDecoder", () => {
+    it("should carry split multi-byte sequences across chunks", () => {
+      const decoder = $text.createDecoder()
+
+      expect(decoder.decode(bytes(0x48, 0xe2))).toBe("H")
+      expect(decoder.decode(bytes(0x82))).toBe("")
+      expect(decoder.decode(bytes(0xac, 0xf0, 0x9f))).toBe("€")
+      expect(decoder.decode(bytes(0x98, 0x80))).toBe("😀")
+      expect(decoder.flush()).toBe("")
+    })
+
+    it("should flush an incomplete trailing sequence as U+FFFD", () => {
+      const decoder = $text.createDecoder()
+
+      expect(decoder.decode(bytes(0x48, 0xe2, 0x82))).toBe("H")
+      expect(decoder.flush()).toBe("�")
+    })
+
+    it("should carry split UTF-16 code units across chunks", () => {
+      const decoder = $text.createDecoder("utf-16be")
+
+      expect(decoder.decode(bytes(0, 0x48, 0xd8))).toBe("H")
+      expect(decoder.decode(bytes(0x3d, 0xde, 0x00))).toBe("😀")
+    })
+
+    it("should report the offset of the chunk with malformed input when fatal", () => {
+      const decoder = $text.createDecoder("utf-8", { fatal: true })
+      decoder.decode(bytes(0x48, 0x49))
+
+      expect(() => decoder.decode(bytes(0x48, 0xff))).toThrow("Malformed input in utf-8 input at offset 2")
+    })
+
+    it("should report the exact offset for single-byte encodings", () => {
+      const decoder = $text.createDecoder("windows-1252", { fatal: true })
+      decoder.decode(bytes(0x48, 0x49))
+
+      expect(() => decoder.decode(bytes(0x48, 0x81))).toThrow("Malformed input in windows-1252 input at offset 3")
+    })
+  })
+
+  // Helper function to turn a list of chunks into a ReadableStream
+  function streamOf<T>(...chunks: T[]) {
+    return new ReadableStream<T>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk))
+        controller.close()
+      },
+    })
+  }
+
+  async function collect<T>(iter: AsyncIterable<T>) {
+    const out: T[] = []
+
+    for await (const v of iter) {
+      out.push(v)
+    }
+
+    return out
+  }
+
+  describe("decoderStream / encoderStream", () => {
+    it("should round-trip text split mid-character", async () => {
+      const encoded = $text.toBuffer("€😀é")
+      const chunks = Array.from(encoded, (b) => bytes(b))
+      const decoded = streamOf(...chunks).pipeThrough($text.decoderStream())
+
+      expect((await collect(decoded as unknown as AsyncIterable<string>)).join("")).toBe("€😀é")
+    })
+
+    it("should encode a stream of strings to UTF-8", async () => {
+      const encoded = streamOf("H", "é").pipeThrough($text.encoderStream())
+      const chunks = await collect(encoded as unknown as AsyncIterable<Uint8Array>)
+
+      expect(chunks.flatMap((c) => Array.from(c))).toEqual([0x48, 0xc3, 0xa9])
+    })
+  })
+
+  describe("lineStream", () => {
+    it("should split lines across chunk boundaries", async () => {
+      const lines = streamOf("one\ntw", "o\r", "\nthree\n\nfour").pipeThrough($text.lineStream())
+
+      expect(await collect(lines as unknown as AsyncIterable<string>)).toEqual(["one", "two", "three", "", "four"])
+    })
+  })
+
+  describe("lines", () => {
+    it("should read lines from a byte stream", async () => {
+      const encoded = $text.toBuffer("first €\nsecond\n")
+      const stream = streamOf(encoded.subarray(0, 8), encoded.subarray(8))
+
+      expect(await collect($text.lines(stream))).toEqual(["first €", "second"])
+    })
+
+    it("should cancel the source when the caller stops early", async () => {
+      let cancelled = false
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          controller.enqueue($text.toBuffer("line\n"))
+        },
+        cancel() {
+          cancelled = true
+        },
+      })
+
+      for await (const _line of $text.lines(stream)) {
+        break
+      }
+
+      // Cancellation travels back through the pipe chain asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      expect(cancelled).toBe(true)
+    })
+  })
+
+  describe("ndjson", () => {
+    it("should parse newline-delimited JSON, skipping blank lines", async () => {
+      const stream = streamOf($text.toBuffer('{"a":1}\n\n{"a"'), $text.toBuffer(':2}\r\n[3]'))
+
+      expect(await collect($text.ndjson(stream))).toEqual([{ a: 1 }, { a: 2 }, [3]])
+    })
+
+    it("should fail with the line number of invalid JSON", async () => {
+      const stream = streamOf($text.toBuffer('{"a":1}\n{oops}\n'))
+
+      await expect(collect($text.ndjson(stream))).rejects.toThrow(/^Invalid JSON on line 2/)
+    })
+  })
+})
+
+describe("$base64", () => {
+  describe("toBuffer", () => {
+    it("should take standard base64 with line breaks in lenient mode", () => {
+      expect(Array.from($base64.toBuffer("MIIB+/8=\n", "lenient"))).toEqual([48, 130, 1, 251, 255])
+    })
+  })
+
+  describe("decoderStream", () => {
+    it("should decode PEM-style streams in lenient mode", async () => {
+      const stream = new ReadableStream<string>({
+        start(controller) {
+          ["MIIB\r\n+", "/8=\r\n"].forEach(chunk => controller.enqueue(chunk))
+          controller.close()
+        },
+      })
+
+      const bytes = await new Response(stream.pipeThrough($base64.decoderStream(undefined, "lenient"))).arrayBuffer()
+
+      expect(Array.from(new Uint8Array(bytes))).toEqual([48, 130, 1, 251, 255])
+    })
+  })
+})
@@ -1,17 +1,28 @@
+import { decodeText, detectBOM, encodeText, type TextDecodeOptions, type TextEncodeOptions, type TextEncodingName } from "./charsets"
+import { decode, encode, type CodecName } from "./codecs"
+import { base64 as base64x, DecodeError, hex as hexx, toBytes, type Base32Variant, type Base85Variant, type DecodeMode } from "./transcoders"
+
+export type { TextDecodeOptions, TextEncodeOptions, TextEncodingName }
+
 const utf8Enc = new TextEncoder()
-const utf8Dec = new TextDecoder()
 
 export const $text = {
   /**
-   * Encodes a string to UTF-8 bytes.
+   * Encodes a string to bytes, UTF-8 by default.
+   * UTF-16LE/BE, Latin-1 and Windows-1252 are also supported, which `TextEncoder` can't produce.
+   * Characters a single-byte encoding can't represent are written as '?' unless `fatal` is set.
    *
    * @param text - The string to encode
-   * @returns A Uint8Array containing the UTF-8 encoded bytes
+   * @param encoding - The text encoding to use
+   * @param options - Whether to write a byte order mark, and whether to throw on unencodable characters
+   * @returns A Uint8Array containing the encoded bytes
+   * @throws {RangeError} If `fatal` is set and the text can't be represented in the encoding
    * @example
-   * utf8.encode("Hello") // returns Uint8Array([72, 101, 108, 108, 111])
+   * $text.toBuffer("Hello") // returns Uint8Array([72, 101, 108, 108, 111])
+   * $text.toBuffer("Hi", "utf-16le", { bom: true }) // returns Uint8Array([255, 254, 72, 0, 105, 0])
    */
-  toBuffer(text: string) {
-    return utf8Enc.encode(text)
+  toBuffer(text: string, encoding: TextEncodingName = "utf-8", options?: TextEncodeOptions) {
+    return encodeText(text, encoding, options)
   },
 
   /**
@@ -30,16 +41,222 @@ export const $text = {
   },
 
   /**
-   * Decodes UTF-8 bytes to a string.
+   * Decodes bytes to a string.
+   * Without an encoding, a leading byte order mark selects UTF-8, UTF-16LE or UTF-16BE,
+   * falling back to UTF-8. The byte order mark is stripped unless `keepBOM` is set.
    *
-   * @param buf - The buffer containing UTF-8 encoded bytes
+   * @param buf - The buffer containing the encoded bytes
+   * @param encoding - The text encoding to use, detected from the byte order mark if omitted
+   * @param options - Whether to throw on malformed input, and whether to keep the byte order mark
    * @returns The decoded string
+   * @throws {DecodeError} If `fatal` is set and the input is malformed
    * @example
-   * utf8.decode(new Uint8Array([72, 101, 108, 108, 111]).buffer) // returns "Hello"
+   * $text.fromBuffer(new Uint8Array([72, 101, 108, 108, 111])) // returns "Hello"
+   * $text.fromBuffer(new Uint8Array([0xfe, 0xff, 0, 72, 0, 105])) // returns "Hi"
+   * $text.fromBuffer(new Uint8Array([0x80]), "windows-1252") // returns "€"
    */
-  fromBuffer(buf: ArrayBuffer | ArrayBufferView) {
-    return utf8Dec.decode(buf)
+  fromBuffer(buf: ArrayBuffer | ArrayBufferView, encoding?: TextEncodingName, options?: TextDecodeOptions) {
+    return decodeText(toBytes(buf), encoding, options)
+  },
+
+  /**
+   * Detects the encoding of a buffer from its leading byte order mark.
+   *
+   * @param buf - The buffer to inspect
+   * @returns `"utf-8"`, `"utf-16le"` or `"utf-16be"`, or undefined if there's no byte order mark
+   * @example
+   * $text.detectBOM(new Uint8Array([0xff, 0xfe, 72, 0])) // returns "utf-16le"
+   */
+  detectBOM(buf: ArrayBuffer | ArrayBufferView) {
+    return detectBOM(toBytes(buf))
+  },
+
+  /**
+   * Creates a stateful decoder that carries incomplete multi-byte sequences over from one chunk
+   * to the next, so characters split across network chunks decode correctly.
+   * With `fatal` set, malformed UTF input throws a `DecodeError` whose offset is where the chunk
+   * containing the bad sequence starts.
+   *
+   * @param encoding - The text encoding to use
+   * @param options - Whether to throw on malformed input, and whether to keep the byte order mark
+   * @returns A decoder whose `decode` returns the text completed by each chunk, and whose `flush`
+   *   returns whatever is left at the end of the input
+   * @example
+   * const decoder = $text.createDecoder()
+   * decoder.decode(new Uint8Array([0xe2, 0x82])) // returns ""
+   * decoder.decode(new Uint8Array([0xac])) // returns "€"
+   * decoder.flush() // returns ""
+   */
+  createDecoder(encoding: TextEncodingName = "utf-8", options: TextDecodeOptions = {}): TextChunkDecoder {
+    const { fatal = false, keepBOM = false } = options
+    const decoder = encoding.startsWith("utf-")
+      ? new TextDecoder(encoding, { fatal, ignoreBOM: keepBOM })
+      : undefined
+    let offset = 0
+
+    const decode = (bytes: Uint8Array, stream: boolean) => {
+      try {
+        return decoder ? decoder.decode(bytes, { stream }) : decodeText(bytes, encoding, { fatal })
+      } catch (err) {
+        if (err instanceof DecodeError) {
+          throw new DecodeError(encoding, "Malformed input", offset + err.offset)
+        }
+
+        throw err instanceof TypeError ? new DecodeError(encoding, "Malformed input", offset) : err
+      } finally {
+        offset += bytes.length
+      }
+    }
+
+    return {
+      decode: (chunk) => decode(toBytes(chunk), true),
+      flush: () => decode(new Uint8Array(0), false),
+    }
+  },
+
+  /**
+   * Creates a TransformStream that decodes a stream of bytes to text,
+   * carrying multi-byte sequences split across chunks over to the next chunk.
+   *
+   * @param encoding - The text encoding to use
+   * @param options - Whether to throw on malformed input, and whether to keep the byte order mark
+   * @returns A TransformStream of bytes to strings
+   * @example
+   * (await fetch(url)).body.pipeThrough($text.decoderStream())
+   */
+  decoderStream(encoding: TextEncodingName = "utf-8", options?: TextDecodeOptions) {
+    const decoder = $text.createDecoder(encoding, options)
+
+    return new TransformStream<ArrayBuffer | ArrayBufferView, string>({
+      transform(chunk, controller) {
+        const text = decoder.decode(chunk)
+        text && controller.enqueue(text)
+      },
+      flush(controller) {
+        const text = decoder.flush()
+        text && controller.enqueue(text)
+      },
+    })
+  },
+
+  /**
+   * Creates a TransformStream that encodes a stream of strings to UTF-8 bytes.
+   *
+   * @returns A TransformStream of strings to Uint8Arrays
+   * @example
+   * textStream.pipeThrough($text.encoderStream())
+   */
+  encoderStream() {
+    return new TextEncoderStream()
+  },
+
+  /**
+   * Creates a TransformStream that splits a stream of text into lines.
+   * Lines may end with "\n" or "\r\n", the line endings are not included,
+   * and a final line without a line ending is emitted on flush.
+   *
+   * @returns A TransformStream of text chunks to lines
+   * @example
+   * textStream.pipeThrough($text.lineStream())
+   */
+  lineStream() {
+    let rest = ""
+
+    return new TransformStream<string, string>({
+      transform(chunk, controller) {
+        const lines = (rest + chunk).split(/\r?\n/)
+        rest = lines.pop()!
+        lines.forEach((line) => controller.enqueue(line))
+      },
+      flush(controller) {
+        rest && controller.enqueue(rest.endsWith("\r") ? rest.slice(0, -1) : rest)
+      },
+    })
+  },
+
+  /**
+   * Creates a TransformStream that parses a stream of newline-delimited JSON text.
+   * Blank lines are skipped, and a line that isn't valid JSON errors the stream
+   * with a SyntaxError naming the line number.
+   *
+   * @returns A TransformStream of text chunks to parsed values
+   * @example
+   * textStream.pipeThrough($text.ndjsonStream<LogEntry>())
+   */
+  ndjsonStream<T = unknown>() {
+    const lines = $text.lineStream()
+    let line = 0
+
+    const parse = new TransformStream<string, T>({
+      transform(text, controller) {
+        line++
+
+        if (!text.trim()) {
+          return
+        }
+
+        try {
+          controller.enqueue(JSON.parse(text))
+        } catch (err) {
+          throw new SyntaxError(`Invalid JSON on line ${line}: ${(err as Error).message}`, { cause: err })
+        }
+      },
+    })
+
+    return { writable: lines.writable, readable: lines.readable.pipeThrough(parse) }
+  },
+
+  /**
+   * Reads a stream of bytes as lines of UTF-8 text.
+   *
+   * @param stream - The byte stream, e.g. a `fetch` response body or `Blob.stream()`
+   * @returns An async iterator of lines
+   * @example
+   * for await (const line of $text.lines(response.body)) {
+   *   console.log(line)
+   * }
+   */
+  lines(stream: ReadableStream<ArrayBuffer | ArrayBufferView>) {
+    return iterate(stream.pipeThrough($text.decoderStream()).pipeThrough($text.lineStream()))
   },
+
+  /**
+   * Reads a stream of bytes as newline-delimited JSON.
+   *
+   * @param stream - The byte stream, e.g. a `fetch` response body or `Blob.stream()`
+   * @returns An async iterator of parsed values
+   * @example
+   * for await (const entry of $text.ndjson<LogEntry>(response.body)) {
+   *   console.log(entry.level, entry.message)
+   * }
+   */
+  ndjson<T = unknown>(stream: ReadableStream<ArrayBuffer | ArrayBufferView>) {
+    return iterate(stream.pipeThrough($text.decoderStream()).pipeThrough($text.ndjsonStream<T>()))
+  },
+}
+
+/**
+ * A stateful decoder, see `$text.createDecoder`.
+ */
+export interface TextChunkDecoder {
+  /** Decodes a chunk, holding back any incomplete trailing sequence */
+  decode(chunk: ArrayBuffer | ArrayBufferView): string
+  /** Decodes whatever is held back at the end of the input */
+  flush(): string
+}
+
+async function* iterate<T>(stream: ReadableStream<T>) {
+  const reader = stream.getReader()
+  let done = false
+
+  try {
+    for (let r = await reader.read(); !(done = r.done); r = await reader.read()) {
+      yield r.value
+    }
+  } finally {
+    // Cancel the source if the caller stopped early
+    done ? reader.releaseLock() : await reader.cancel()
+  }
 }
 
 export const $hex = {
@@ -52,9 +269,8 @@ export const $hex = {
    * @example
    * hex.encode(new Uint8Array([1, 2, 3]).buffer) // returns "010203"
    */
-  fromBuffer(buf: ArrayBuffer) {
-    const bytes = new Uint8Array(buf)
-    return Array.prototype.map.call(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+  fromBuffer(buf: ArrayBuffer | ArrayBufferView) {
+    return encode(buf, "hex")
   },
 
   /**
@@ -62,20 +278,14 @@ export const $hex = {
    * Handles odd-length strings by padding with a leading zero.
    *
    * @param hex - The hexadecimal string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid for the given mode
    * @example
    * hex.decode("010203") // returns Uint8Array([1, 2, 3])
    */
-  toBuffer(hex: string) {
-    hex = hex.length % 2 ? hex.padStart(hex.length + 1, "0") : hex
-    const size = hex.length / 2
-    const bytes = new Uint8Array(size)
-
-    for (let i = 0; i < size; i++) {
-      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
-    }
-
-    return bytes
+  toBuffer(hex: string, mode?: DecodeMode) {
+    return decode(hex, "hex", mode)
   },
 
   /**
@@ -84,22 +294,40 @@ export const $hex = {
    *
    * @param hex - The hexadecimal string to decode
    * @param dest - The destination buffer to write the decoded bytes into
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns An object with the properties `read` and `written`
+   * @throws {DecodeError} If the input is invalid for the given mode
    * @example
    * const dest = new Uint8Array(10)
    * hex.intoBuffer("010203", dest) // returns { read: 3, written: 3 }
    * console.log(dest.subarray(0, 3)) // prints [1, 2, 3]
    */
-  intoBuffer(hex: string, dest: Uint8Array): { read: number, written: number } {
-    hex = hex.length % 2 ? hex.padStart(hex.length + 1, "0") : hex
-    const size = hex.length / 2
-    const written = Math.min(dest.byteLength, size)
+  intoBuffer(hex: string, dest: Uint8Array, mode?: DecodeMode): { read: number, written: number } {
+    return copyInto(decode(hex, "hex", mode), dest)
+  },
 
-    for (let i = 0; i < written; i++) {
-      dest[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
-    }
+  /**
+   * Creates a TransformStream that encodes a stream of bytes to hexadecimal text.
+   *
+   * @returns A TransformStream of bytes to hexadecimal strings
+   * @example
+   * blob.stream().pipeThrough($hex.encoderStream())
+   */
+  encoderStream() {
+    return hexx.encoderStream()
+  },
 
-    return { read: size, written }
+  /**
+   * Creates a TransformStream that decodes a stream of hexadecimal text to bytes,
+   * carrying character pairs split across chunks over to the next chunk.
+   *
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A TransformStream of hexadecimal strings to Uint8Arrays
+   * @example
+   * textStream.pipeThrough($hex.decoderStream())
+   */
+  decoderStream(mode?: DecodeMode) {
+    return hexx.decoderStream(mode)
   },
 }
 
@@ -115,33 +343,24 @@ export const $base64 = {
    * base64.encode(new Uint8Array([1, 2, 3]).buffer) // returns "AQID"
    * base64.encode(new Uint8Array([1, 2, 3]).buffer, true) // returns "AQID" (URL-safe)
    */
-  fromBuffer(buf: ArrayBuffer, urlSafe = false) {
-    const bytes = new Uint8Array(buf)
-    const byteStr = String.fromCharCode(...bytes)
-    const base64 = btoa(byteStr)
-    return urlSafe ? makeUrlSafe(base64) : base64
+  fromBuffer(buf: ArrayBuffer | ArrayBufferView, urlSafe = false) {
+    return encode(buf, urlSafe ? "base64url" : "base64")
   },
 
   /**
    * Decodes a base64 string to a Uint8Array.
    * Handles both standard and URL-safe base64 formats.
+   * With a mode, input with '+' or '/' is validated as standard base64, otherwise as URL-safe.
    *
    * @param base64 - The base64 string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
    * @example
    * base64.decode("AQID") // returns Uint8Array([1, 2, 3])
    */
-  toBuffer(base64: string) {
-    base64 = makeUrlUnsafe(base64)
-
-    const byteStr = atob(base64)
-    const buffer = new Uint8Array(byteStr.length)
-
-    for (let i = 0; i < byteStr.length; i++) {
-      buffer[i] = byteStr.charCodeAt(i)
-    }
-
-    return buffer
+  toBuffer(base64: string, mode?: DecodeMode) {
+    return decode(base64, "base64", mode)
   },
 
   /**
@@ -150,59 +369,199 @@ export const $base64 = {
    *
    * @param base64 - The base64 string to decode
    * @param dest - The destination buffer to write the decoded bytes into
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns An object with the properties `read` and `written`
+   * @throws {DecodeError} If the input is invalid
    * @example
    * const dest = new Uint8Array(10)
    * base64.intoBuffer("AQID", dest) // returns { read: 4, written: 4 }
    * console.log(dest.subarray(0, 4)) // prints [1, 2, 3, 0]
    */
-  intoBuffer(base64: string, dest: Uint8Array): { read: number, written: number } {
-    base64 = makeUrlUnsafe(base64)
-    const byteStr = atob(base64)
-    const written = Math.min(dest.byteLength, byteStr.length)
+  intoBuffer(base64: string, dest: Uint8Array, mode?: DecodeMode): { read: number, written: number } {
+    return copyInto($base64.toBuffer(base64, mode), dest)
+  },
 
-    for (let i = 0; i < written; i++) {
-      dest[i] = byteStr.charCodeAt(i)
-    }
+  /**
+   * Creates a TransformStream that encodes a stream of bytes to base64 text,
+   * carrying partial 3-byte groups over to the next chunk and padding the output on flush.
+   *
+   * @param urlSafe - Whether to use URL-safe base64 encoding
+   * @returns A TransformStream of bytes to base64 strings
+   * @example
+   * blob.stream().pipeThrough($base64.encoderStream())
+   */
+  encoderStream(urlSafe = false) {
+    return base64x.encoderStream(urlSafe)
+  },
+
+  /**
+   * Creates a TransformStream that decodes a stream of base64 text to bytes,
+   * carrying partial 4-character groups over to the next chunk.
+   * Handles both standard and URL-safe base64 formats. Unless `urlSafe` is set, a mode
+   * accepts whichever alphabet the stream uses, like `toBuffer`.
+   *
+   * @param urlSafe - Whether the input is URL-safe base64, or `"auto"` to tell from the input
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A TransformStream of base64 strings to Uint8Arrays
+   * @example
+   * textStream.pipeThrough($base64.decoderStream("auto", "lenient"))
+   */
+  decoderStream(urlSafe: boolean | "auto" = "auto", mode?: DecodeMode) {
+    return base64x.decoderStream(urlSafe, mode)
+  },
+}
+
+export const $base32 = {
+  /**
+   * Encodes an ArrayBuffer or view to a base32 string.
+   *
+   * @param buf - The buffer to encode
+   * @param variant - The alphabet: RFC 4648 (`"rfc4648"`), RFC 4648 extended hex (`"hex"`) or Crockford's (`"crockford"`)
+   * @returns A base32 string representation of the buffer
+   * @example
+   * $base32.fromBuffer(new Uint8Array([102, 111, 111])) // returns "MZXW6==="
+   */
+  fromBuffer(buf: ArrayBuffer | ArrayBufferView, variant: Base32Variant = "rfc4648") {
+    return encode(buf, base32Codecs[variant])
+  },
 
-    return { read: byteStr.length, written }
+  /**
+   * Decodes a base32 string to a Uint8Array.
+   * Decoding is case-insensitive and padding is optional outside of strict mode.
+   *
+   * @param base32 - The base32 string to decode
+   * @param variant - The alphabet the string was encoded with
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * $base32.toBuffer("mzxw6") // returns Uint8Array([102, 111, 111])
+   */
+  toBuffer(base32: string, variant: Base32Variant = "rfc4648", mode?: DecodeMode) {
+    return decode(base32, base32Codecs[variant], mode)
+  },
+
+  /**
+   * Decodes a base32 string to a Uint8Array and writes them into a destination buffer.
+   *
+   * @param base32 - The base32 string to decode
+   * @param dest - The destination buffer to write the decoded bytes into
+   * @param variant - The alphabet the string was encoded with
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns An object with the properties `read` and `written`
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * const dest = new Uint8Array(10)
+   * $base32.intoBuffer("MZXW6===", dest) // returns { read: 3, written: 3 }
+   */
+  intoBuffer(base32: string, dest: Uint8Array, variant: Base32Variant = "rfc4648", mode?: DecodeMode) {
+    return copyInto(decode(base32, base32Codecs[variant], mode), dest)
   },
 }
 
-const unsafeToSafe: Record<string, string> = {
-  "=": "",
-  "+": "-",
-  "/": "_",
+export const $base58 = {
+  /**
+   * Encodes an ArrayBuffer or view to a base58 string using the Bitcoin alphabet.
+   *
+   * @param buf - The buffer to encode
+   * @returns A base58 string representation of the buffer
+   * @example
+   * $base58.fromBuffer(new TextEncoder().encode("Hello World!")) // returns "2NEpo7TZRRrLZSi2U"
+   */
+  fromBuffer(buf: ArrayBuffer | ArrayBufferView) {
+    return encode(buf, "base58")
+  },
+
+  /**
+   * Decodes a base58 (Bitcoin alphabet) string to a Uint8Array.
+   *
+   * @param base58 - The base58 string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input contains a character outside the alphabet
+   * @example
+   * $base58.toBuffer("111233QC4") // returns Uint8Array([0, 0, 0, 40, 127, 180, 205])
+   */
+  toBuffer(base58: string, mode?: DecodeMode) {
+    return decode(base58, "base58", mode)
+  },
+
+  /**
+   * Decodes a base58 string to a Uint8Array and writes them into a destination buffer.
+   *
+   * @param base58 - The base58 string to decode
+   * @param dest - The destination buffer to write the decoded bytes into
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns An object with the properties `read` and `written`
+   * @throws {DecodeError} If the input contains a character outside the alphabet
+   * @example
+   * const dest = new Uint8Array(10)
+   * $base58.intoBuffer("111233QC4", dest) // returns { read: 7, written: 7 }
+   */
+  intoBuffer(base58: string, dest: Uint8Array, mode?: DecodeMode) {
+    return copyInto(decode(base58, "base58", mode), dest)
+  },
 }
 
-const safeToUnsafe: Record<string, string> = {
-  "-": "+",
-  "_": "/",
+export const $base85 = {
+  /**
+   * Encodes an ArrayBuffer or view to a base85 string.
+   *
+   * @param buf - The buffer to encode
+   * @param variant - The alphabet: Adobe Ascii85 (`"ascii85"`) or ZeroMQ Z85 (`"z85"`)
+   * @returns A base85 string representation of the buffer
+   * @example
+   * $base85.fromBuffer(new Uint8Array([0x86, 0x4f, 0xd2, 0x6f, 0xb5, 0x59, 0xf7, 0x5b]), "z85") // returns "HelloWorld"
+   */
+  fromBuffer(buf: ArrayBuffer | ArrayBufferView, variant: Base85Variant = "ascii85") {
+    return encode(buf, variant)
+  },
+
+  /**
+   * Decodes a base85 string to a Uint8Array.
+   * Ascii85 input may be wrapped in `<~`/`~>` delimiters.
+   *
+   * @param base85 - The base85 string to decode
+   * @param variant - The alphabet the string was encoded with
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * $base85.toBuffer("<~9jqo^~>") // returns Uint8Array([77, 97, 110, 32])
+   */
+  toBuffer(base85: string, variant: Base85Variant = "ascii85", mode?: DecodeMode) {
+    return decode(base85, variant, mode)
+  },
+
+  /**
+   * Decodes a base85 string to a Uint8Array and writes them into a destination buffer.
+   *
+   * @param base85 - The base85 string to decode
+   * @param dest - The destination buffer to write the decoded bytes into
+   * @param variant - The alphabet the string was encoded with
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns An object with the properties `read` and `written`
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * const dest = new Uint8Array(10)
+   * $base85.intoBuffer("HelloWorld", dest, "z85") // returns { read: 8, written: 8 }
+   */
+  intoBuffer(base85: string, dest: Uint8Array, variant: Base85Variant = "ascii85", mode?: DecodeMode) {
+    return copyInto(decode(base85, variant, mode), dest)
+  },
 }
 
-/**
- * Converts a standard base64 string to URL-safe format.
- * Replaces '+', '/', and '=' with '-', '_', and removes padding respectively.
- *
- * @param base64 - The standard base64 string to convert
- * @returns A URL-safe base64 string
- * @example
- * makeUrlSafe("AQID+") // returns "AQID-"
- */
-export function makeUrlSafe(base64: string) {
-  return base64.replace(/[=+/]/gm, (m) => unsafeToSafe[m])
+const base32Codecs: Record<Base32Variant, CodecName> = {
+  rfc4648: "base32",
+  hex: "base32hex",
+  crockford: "base32crockford",
 }
 
-/**
- * Converts a URL-safe base64 string to standard format.
- * Replaces '-', '_' with '+', '/' and adds appropriate padding.
- *
- * @param base64 - The URL-safe base64 string to convert
- * @returns A standard base64 string
- * @example
- * makeUrlUnsafe("AQID-") // returns "AQID+"
- */
-export function makeUrlUnsafe(base64: string) {
-  const padding = "=".repeat((4 - (base64.length % 4)) % 4)
-  return base64.replace(/[-_]/gm, (m) => safeToUnsafe[m]) + padding
+function copyInto(bytes: Uint8Array, dest: Uint8Array): { read: number, written: number } {
+  const written = Math.min(dest.byteLength, bytes.length)
+  dest.set(bytes.subarray(0, written))
+
+  return { read: bytes.length, written }
 }
+
+export { makeUrlSafe, makeUrlUnsafe } from "./transcoders"
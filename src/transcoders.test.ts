@@ -0,0 +1,421 @@
+import { describe, it, expect, vi } from "vitest"
+import { base32, base58, base64, base85, hex, DecodeError } from "./transcoders"
+
+
+describe("transcoders", () => {
+  // Helper function to push chunks through a TransformStream and collect the output
+  async function pipe<I, O>(chunks: I[], stream: TransformStream<I, O>) {
+    const out: O[] = []
+    const source = new ReadableStream<I>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk))
+        controller.close()
+      },
+    })
+    const reader = source.pipeThrough(stream).getReader()
+
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      out.push(r.value)
+    }
+
+    return out
+  }
+
+  // Helper function to split a buffer into chunks of the given sizes
+  function split(bytes: Uint8Array, ...sizes: number[]) {
+    const chunks: Uint8Array[] = []
+    let offset = 0
+
+    for (const size of sizes) {
+      chunks.push(bytes.subarray(offset, offset + size))
+      offset += size
+    }
+
+    chunks.push(bytes.subarray(offset))
+    return chunks
+  }
+
+  function concat(chunks: Uint8Array[]) {
+    const bytes = new Uint8Array(chunks.reduce((acc, c) => acc + c.length, 0))
+    chunks.reduce((offset, c) => (bytes.set(c, offset), offset + c.length), 0)
+    return bytes
+  }
+
+  const data = new Uint8Array(Array.from({ length: 100 }, (_, i) => (i * 37) % 256))
+
+  describe("base64.encode", () => {
+    it("should encode multi-megabyte buffers without overflowing the stack", () => {
+      const big = new Uint8Array(5 * 1024 * 1024 + 1).map((_, i) => (i * 31) % 256)
+
+      const result = base64.encode(big)
+
+      expect(result).toBe(Buffer.from(big).toString("base64"))
+    })
+
+    it("should pad the final group", () => {
+      expect(base64.encode(new Uint8Array([1]))).toBe("AQ==")
+      expect(base64.encode(new Uint8Array([1, 2]))).toBe("AQI=")
+      expect(base64.encode(new Uint8Array([1, 2, 3]))).toBe("AQID")
+      expect(base64.encode(new Uint8Array([]))).toBe("")
+    })
+
+    it("should use the URL-safe alphabet without padding", () => {
+      expect(base64.encode(new Uint8Array([251, 255, 191]), true)).toBe("-_-_")
+      expect(base64.encode(new Uint8Array([251, 255]), true)).toBe("-_8")
+    })
+
+    it("should only encode the window of a view", () => {
+      const bytes = new Uint8Array([9, 9, 1, 2, 3, 9])
+
+      expect(base64.encode(bytes.subarray(2, 5))).toBe("AQID")
+    })
+
+    it("should use the native toBase64 when available", () => {
+      const toBase64 = vi.fn(() => "native")
+      Object.defineProperty(Uint8Array.prototype, "toBase64", { value: toBase64, configurable: true })
+
+      try {
+        expect(base64.encode(new Uint8Array([1, 2, 3]), true)).toBe("native")
+        expect(toBase64).toHaveBeenCalledWith({ alphabet: "base64url", omitPadding: true })
+      } finally {
+        delete (Uint8Array.prototype as { toBase64?: unknown }).toBase64
+      }
+    })
+  })
+
+  describe("base64.decode", () => {
+    it("should decode multi-megabyte strings", () => {
+      const big = new Uint8Array(5 * 1024 * 1024 + 2).map((_, i) => (i * 7) % 256)
+
+      const result = base64.decode(Buffer.from(big).toString("base64"))
+
+      // Compared as a Buffer, deep-equality over millions of elements is too slow
+      expect(Buffer.from(result).equals(big)).toBe(true)
+    })
+
+    it("should accept the same input as atob", () => {
+      for (const input of ["", "AQID", "AQ==", "AQ", "AQI=", "AQI", " AQ\nID ", "+/8="]) {
+        const expected = Uint8Array.from(atob(input), (c) => c.charCodeAt(0))
+        expect(base64.decode(input)).toEqual(expected)
+      }
+    })
+
+    it("should reject input that atob rejects", () => {
+      for (const input of ["A", "AQIDB", "A===", "AQ=D", "AQ-_", "AQ\u00e9D"]) {
+        expect(() => atob(input)).toThrow()
+        expect(() => base64.decode(input)).toThrow(DecodeError)
+      }
+    })
+
+    it("should decode URL-safe input", () => {
+      expect(base64.decode("-_-_", true)).toEqual(new Uint8Array([251, 255, 191]))
+      expect(base64.decode("-_8", true)).toEqual(new Uint8Array([251, 255]))
+    })
+
+    it("should use the native fromBase64 when available", () => {
+      const fromBase64 = vi.fn(() => new Uint8Array([42]))
+      Object.defineProperty(Uint8Array, "fromBase64", { value: fromBase64, configurable: true })
+
+      try {
+        expect(base64.decode("Kg==")).toEqual(new Uint8Array([42]))
+        expect(fromBase64).toHaveBeenCalledWith("Kg==")
+      } finally {
+        delete (Uint8Array as { fromBase64?: unknown }).fromBase64
+      }
+    })
+  })
+
+  describe("strict mode", () => {
+    function offsetOf(fn: () => unknown) {
+      try {
+        fn()
+      } catch (err) {
+        expect(err).toBeInstanceOf(DecodeError)
+        return (err as DecodeError).offset
+      }
+
+      throw new Error("Expected a DecodeError")
+    }
+
+    it("should reject invalid hex characters with their offset", () => {
+      expect(offsetOf(() => hex.decode("01zz", "strict"))).toBe(2)
+      expect(offsetOf(() => hex.decode("01 02", "strict"))).toBe(2)
+    })
+
+    it("should reject odd-length hex", () => {
+      expect(offsetOf(() => hex.decode("010", "strict"))).toBe(3)
+    })
+
+    it("should decode valid hex of either case", () => {
+      expect(hex.decode("0aFF", "strict")).toEqual(new Uint8Array([10, 255]))
+    })
+
+    it("should reject characters outside the base64 alphabet", () => {
+      expect(offsetOf(() => base64.decode("AQ-D", false, "strict"))).toBe(2)
+      expect(offsetOf(() => base64.decode("AQ+D", true, "strict"))).toBe(2)
+    })
+
+    it("should reject bad base64 padding", () => {
+      expect(offsetOf(() => base64.decode("AQ=D", false, "strict"))).toBe(3)
+      expect(offsetOf(() => base64.decode("AQI==", false, "strict"))).toBe(3)
+      expect(offsetOf(() => base64.decode("AQ===", false, "strict"))).toBe(2)
+      expect(offsetOf(() => base64.decode("AQ", false, "strict"))).toBe(2)
+      expect(offsetOf(() => base64.decode("AQIDB", false, "strict"))).toBe(5)
+    })
+
+    it("should reject non-zero padding bits", () => {
+      expect(offsetOf(() => base64.decode("AR==", false, "strict"))).toBe(1)
+      expect(offsetOf(() => base64.decode("AQJ", true, "strict"))).toBe(2)
+    })
+
+    it("should accept padded and unpadded URL-safe base64", () => {
+      expect(base64.decode("-_8", true, "strict")).toEqual(new Uint8Array([251, 255]))
+      expect(base64.decode("-_8=", true, "strict")).toEqual(new Uint8Array([251, 255]))
+    })
+
+    it("should validate across stream chunks", async () => {
+      await expect(pipe(["AQID", "BA=", "=x"], base64.decoderStream(false, "strict"))).rejects.toThrow(DecodeError)
+      await expect(pipe(["AQID", "BA"], base64.decoderStream(false, "strict"))).rejects.toThrow("Missing padding in base64 input at offset 6")
+      await expect(pipe(["01", "0"], hex.decoderStream("strict"))).rejects.toThrow("Odd length in hex input at offset 3")
+    })
+  })
+
+  describe("lenient mode", () => {
+    it("should skip whitespace and line breaks", () => {
+      expect(hex.decode("01 02\r\n03", "lenient")).toEqual(new Uint8Array([1, 2, 3]))
+      expect(base64.decode("AQ\r\nID\n", false, "lenient")).toEqual(new Uint8Array([1, 2, 3]))
+    })
+
+    it("should tolerate missing padding", () => {
+      expect(base64.decode("AQ", false, "lenient")).toEqual(new Uint8Array([1]))
+    })
+
+    it("should still reject invalid characters at their original offset", () => {
+      expect(() => hex.decode("01\n0g", "lenient")).toThrow("Invalid character in hex input at offset 4")
+      expect(() => base64.decode("AQ\n*D", false, "lenient")).toThrow("Invalid character in base64 input at offset 3")
+    })
+
+    it("should decode PEM-style streams", async () => {
+      const out = await pipe(["AQID\r", "\nBA==\r\n"], base64.decoderStream(false, "lenient"))
+
+      expect(concat(out)).toEqual(new Uint8Array([1, 2, 3, 4]))
+    })
+
+    it("should take either alphabet in a stream with auto", async () => {
+      expect(concat(await pipe(["MIIB\r", "\n+/8=\r\n"], base64.decoderStream("auto", "lenient")))).toEqual(new Uint8Array([48, 130, 1, 251, 255]))
+      expect(concat(await pipe(["MIIB-", "_8"], base64.decoderStream("auto", "strict")))).toEqual(new Uint8Array([48, 130, 1, 251, 255]))
+      await expect(pipe(["MIIB+", "_8="], base64.decoderStream("auto", "lenient"))).rejects.toThrow("Invalid character in base64 input at offset 5")
+      await expect(pipe(["MIIB+/8"], base64.decoderStream("auto", "strict"))).rejects.toThrow("Missing padding in base64 input at offset 7")
+    })
+  })
+
+  describe("base64.encoderStream", () => {
+    it("should match whole-buffer encoding across uneven chunk boundaries", async () => {
+      const expected = base64.encode(data.buffer)
+
+      for (const sizes of [[1], [2], [1, 1, 1], [4, 5], [50]]) {
+        const out = await pipe(split(data, ...sizes), base64.encoderStream())
+        expect(out.join("")).toBe(expected)
+      }
+    })
+
+    it("should flush trailing padding", async () => {
+      const out = await pipe([new Uint8Array([1, 2, 3, 4])], base64.encoderStream())
+
+      expect(out).toEqual(["AQID", "BA=="])
+    })
+
+    it("should produce URL-safe output without padding", async () => {
+      const out = await pipe([new Uint8Array([251]), new Uint8Array([255])], base64.encoderStream(true))
+
+      expect(out.join("")).toBe("-_8")
+    })
+
+    it("should produce no output for an empty stream", async () => {
+      const out = await pipe([], base64.encoderStream())
+
+      expect(out).toEqual([])
+    })
+
+    it("should encode a Blob stream", async () => {
+      const blob = new Blob([data.subarray(0, 10), data.subarray(10)])
+      const reader = blob.stream().pipeThrough(base64.encoderStream()).getReader()
+      let out = ""
+
+      for (let r = await reader.read(); !r.done; r = await reader.read()) {
+        out += r.value
+      }
+
+      expect(out).toBe(base64.encode(data.buffer))
+    })
+  })
+
+  describe("base64.decoderStream", () => {
+    it("should match whole-string decoding across uneven chunk boundaries", async () => {
+      const text = base64.encode(data.buffer)
+      const chunks = [text.slice(0, 1), text.slice(1, 6), text.slice(6, 7), text.slice(7)]
+
+      const out = await pipe(chunks, base64.decoderStream())
+
+      expect(concat(out)).toEqual(data)
+    })
+
+    it("should ignore line breaks between chunks", async () => {
+      const out = await pipe(["AQ\r\nI", "DBA\n==\n"], base64.decoderStream())
+
+      expect(concat(out)).toEqual(new Uint8Array([1, 2, 3, 4]))
+    })
+
+    it("should decode unpadded URL-safe input on flush", async () => {
+      const out = await pipe(["-", "_8"], base64.decoderStream(true))
+
+      expect(concat(out)).toEqual(new Uint8Array([251, 255]))
+    })
+  })
+
+  describe("hex.encoderStream", () => {
+    it("should encode each chunk", async () => {
+      const out = await pipe(split(data, 3, 7), hex.encoderStream())
+
+      expect(out.join("")).toBe(hex.encode(data.buffer))
+    })
+  })
+
+  describe("hex.decoderStream", () => {
+    it("should carry split character pairs over to the next chunk", async () => {
+      const out = await pipe(["0", "10", "2", "03ff"], hex.decoderStream())
+
+      expect(concat(out)).toEqual(new Uint8Array([1, 2, 3, 255]))
+    })
+
+    it("should decode an odd trailing character on flush", async () => {
+      const out = await pipe(["010", "2f"], hex.decoderStream())
+
+      expect(concat(out)).toEqual(new Uint8Array([1, 2, 15]))
+    })
+  })
+
+  describe("base32", () => {
+    const utf8 = new TextEncoder()
+    // RFC 4648 section 10 test vectors
+    const vectors: Array<[string, string, string]> = [
+      ["", "", ""],
+      ["f", "MY======", "CO======"],
+      ["fo", "MZXQ====", "CPNG===="],
+      ["foo", "MZXW6===", "CPNMU==="],
+      ["foob", "MZXW6YQ=", "CPNMUOG="],
+      ["fooba", "MZXW6YTB", "CPNMUOJ1"],
+      ["foobar", "MZXW6YTBOI======", "CPNMUOJ1E8======"],
+    ]
+
+    it("should encode the RFC 4648 test vectors", () => {
+      for (const [text, rfc, ext] of vectors) {
+        expect(base32.encode(utf8.encode(text))).toBe(rfc)
+        expect(base32.encode(utf8.encode(text), "hex")).toBe(ext)
+      }
+    })
+
+    it("should decode the RFC 4648 test vectors strictly", () => {
+      for (const [text, rfc, ext] of vectors) {
+        expect(base32.decode(rfc, "rfc4648", "strict")).toEqual(utf8.encode(text))
+        expect(base32.decode(ext, "hex", "strict")).toEqual(utf8.encode(text))
+      }
+    })
+
+    it("should decode lowercase, unpadded TOTP secrets", () => {
+      expect(base32.decode("jbswy3dpehpk3pxp")).toEqual(base32.decode("JBSWY3DPEHPK3PXP"))
+      expect(base32.decode("jbsw y3dp ehpk 3pxp", "rfc4648", "lenient")).toEqual(base32.decode("JBSWY3DPEHPK3PXP"))
+    })
+
+    it("should encode Crockford base32 without padding", () => {
+      expect(base32.encode(utf8.encode("foobar"), "crockford")).toBe("CSQPYRK1E8")
+    })
+
+    it("should decode Crockford aliases and hyphens", () => {
+      expect(base32.decode("csqp-yrk1-e8", "crockford")).toEqual(utf8.encode("foobar"))
+      expect(base32.decode("OIoL", "crockford")).toEqual(base32.decode("0101", "crockford"))
+    })
+
+    it("should reject invalid input", () => {
+      expect(() => base32.decode("MZXW1===")).toThrow("Invalid character in base32 input at offset 4")
+      expect(() => base32.decode("MZX")).toThrow("Truncated input")
+      expect(() => base32.decode("MZXW6==")).toThrow("Invalid padding")
+      expect(() => base32.decode("MZXW6", "rfc4648", "strict")).toThrow("Missing padding")
+      expect(() => base32.decode("MZ======", "rfc4648", "strict")).toThrow("Non-zero padding bits")
+    })
+  })
+
+  describe("base58", () => {
+    it("should encode and decode Bitcoin test vectors", () => {
+      const vectors: Array<[number[], string]> = [
+        [[], ""],
+        [[0], "1"],
+        [[0, 0, 0, 40, 127, 180, 205], "111233QC4"],
+        [[0x61], "2g"],
+        [[0x62, 0x62, 0x62], "a3gV"],
+        [Array.from(new TextEncoder().encode("Hello World!")), "2NEpo7TZRRrLZSi2U"],
+      ]
+
+      for (const [bytes, text] of vectors) {
+        expect(base58.encode(new Uint8Array(bytes))).toBe(text)
+        expect(Array.from(base58.decode(text))).toEqual(bytes)
+      }
+    })
+
+    it("should round-trip random buffers", () => {
+      for (let n = 0; n < 20; n++) {
+        const bytes = crypto.getRandomValues(new Uint8Array(n * 3))
+        bytes[0] = n % 3 ? bytes[0] : 0
+
+        expect(base58.decode(base58.encode(bytes))).toEqual(bytes)
+      }
+    })
+
+    it("should reject characters outside the alphabet", () => {
+      expect(() => base58.decode("2g0")).toThrow(DecodeError)
+      expect(() => base58.decode("2gl")).toThrow("Invalid character in base58 input at offset 2")
+      expect(Array.from(base58.decode(" 2g\n", "lenient"))).toEqual([0x61])
+    })
+  })
+
+  describe("base85", () => {
+    const man = new TextEncoder().encode("Man is distinguished")
+
+    it("should encode and decode Ascii85", () => {
+      expect(base85.encode(man)).toBe("9jqo^BlbD-BleB1DJ+*+F(f,q")
+      expect(base85.decode("<~9jqo^BlbD-BleB1DJ+*+F(f,q~>")).toEqual(man)
+      expect(base85.decode("9jqo^BlbD-\nBleB1DJ+*+F(f,q")).toEqual(man)
+    })
+
+    it("should use 'z' for all-zero groups", () => {
+      expect(base85.encode(new Uint8Array([0, 0, 0, 0, 1]))).toBe("z!<")
+      expect(Array.from(base85.decode("z!<"))).toEqual([0, 0, 0, 0, 1])
+      expect(Array.from(base85.decode("zz"))).toEqual([0, 0, 0, 0, 0, 0, 0, 0])
+    })
+
+    it("should encode and decode Z85", () => {
+      const bytes = new Uint8Array([0x86, 0x4f, 0xd2, 0x6f, 0xb5, 0x59, 0xf7, 0x5b])
+
+      expect(base85.encode(bytes, "z85")).toBe("HelloWorld")
+      expect(base85.decode("HelloWorld", "z85", "strict")).toEqual(bytes)
+    })
+
+    it("should round-trip partial final groups", () => {
+      for (let n = 0; n < 9; n++) {
+        const bytes = crypto.getRandomValues(new Uint8Array(n))
+
+        expect(base85.decode(base85.encode(bytes))).toEqual(bytes)
+        expect(base85.decode(base85.encode(bytes, "z85"), "z85")).toEqual(bytes)
+      }
+    })
+
+    it("should reject invalid input", () => {
+      expect(() => base85.decode("9jqo~")).toThrow("Invalid character in base85 input at offset 4")
+      expect(() => base85.decode("9jqo^B")).toThrow("Truncated input")
+      expect(() => base85.decode("s8W-\"")).toThrow("Group overflow")
+      expect(() => base85.decode("<~9jqo^")).toThrow("Missing end delimiter")
+      expect(() => base85.decode("Hello", "z85", "strict")).not.toThrow()
+      expect(() => base85.decode("Hell", "z85", "strict")).toThrow("Truncated input")
+    })
+  })
+})
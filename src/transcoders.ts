@@ -1,6 +1,29 @@
+/**
+ * How strictly a decoder treats its input.
+ * - `"strict"` rejects characters outside the alphabet, malformed padding and truncated input.
+ * - `"lenient"` also rejects characters outside the alphabet, but skips whitespace and line breaks
+ *   (as found in PEM/MIME input) and tolerates missing padding.
+ *
+ * Leaving the mode out keeps each decoder's historical, unvalidated behaviour.
+ */
+export type DecodeMode = "strict" | "lenient"
+
+/**
+ * Thrown by decoders when the input is malformed.
+ * The `offset` is the index of the offending character in the input (or the input length
+ * when the input ends too early).
+ */
+export class DecodeError extends SyntaxError {
+  name = "DecodeError"
+
+  constructor(readonly encoding: string, reason: string, readonly offset: number) {
+    super(`${reason} in ${encoding} input at offset ${offset}`)
+  }
+}
+
 export const hex = {
   /**
-   * Encodes an ArrayBuffer to a hexadecimal string.
+   * Encodes an ArrayBuffer or view to a hexadecimal string.
    * Each byte is converted to a two-character hex string, padded with leading zeros if necessary.
    *
    * @param buf - The buffer to encode
@@ -8,8 +31,8 @@ export const hex = {
    * @example
    * hex.encode(new Uint8Array([1, 2, 3]).buffer) // returns "010203"
    */
-  encode(buf: ArrayBuffer) {
-    const bytes = new Uint8Array(buf)
+  encode(buf: ArrayBuffer | ArrayBufferView) {
+    const bytes = toBytes(buf)
     return Array.prototype.map.call(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
   },
 
@@ -18,11 +41,20 @@ export const hex = {
    * Handles odd-length strings by padding with a leading zero.
    *
    * @param hex - The hexadecimal string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid for the given mode
    * @example
    * hex.decode("010203") // returns Uint8Array([1, 2, 3])
+   * hex.decode("01 02\n03", "lenient") // returns Uint8Array([1, 2, 3])
    */
-  decode(hex: string) {
+  decode(hex: string, mode?: DecodeMode) {
+    if (mode) {
+      scanHex(hex, mode)
+      hex = mode === "lenient" ? hex.replace(WHITESPACE, "") : hex
+      mode === "strict" && hex.length % 2 && fail("hex", "Odd length", hex.length)
+    }
+
     hex = hex.length % 2 ? hex.padStart(hex.length + 1, "0") : hex
     const size = hex.length / 2
     const bytes = new Uint8Array(size)
@@ -33,12 +65,62 @@ export const hex = {
 
     return bytes
   },
+
+  /**
+   * Creates a TransformStream that encodes a stream of bytes to hexadecimal text.
+   * Every byte maps to exactly two characters, so each chunk is encoded independently.
+   *
+   * @returns A TransformStream of bytes to hexadecimal strings
+   * @example
+   * blob.stream().pipeThrough(hex.encoderStream())
+   */
+  encoderStream() {
+    return new TransformStream<ArrayBuffer | ArrayBufferView, string>({
+      transform(chunk, controller) {
+        controller.enqueue(hex.encode(toBytes(chunk)))
+      },
+    })
+  },
+
+  /**
+   * Creates a TransformStream that decodes a stream of hexadecimal text to bytes.
+   * A character pair split across two chunks is carried over to the next chunk,
+   * and an odd trailing character is decoded on flush as if padded with a leading zero
+   * (or rejected in strict mode).
+   *
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A TransformStream of hexadecimal strings to Uint8Arrays
+   * @example
+   * textStream.pipeThrough(hex.decoderStream())
+   */
+  decoderStream(mode?: DecodeMode) {
+    let rest = ""
+    let offset = 0
+
+    return new TransformStream<string, Uint8Array>({
+      transform(chunk, controller) {
+        mode && scanHex(chunk, mode, offset)
+        offset += chunk.length
+
+        const text = rest + (mode === "lenient" ? chunk.replace(WHITESPACE, "") : chunk)
+        const end = text.length - (text.length % 2)
+        rest = text.slice(end)
+        end && controller.enqueue(hex.decode(text.slice(0, end)))
+      },
+      flush(controller) {
+        mode === "strict" && rest && fail("hex", "Odd length", offset)
+        rest && controller.enqueue(hex.decode(rest))
+      },
+    })
+  },
 }
 
 export const base64 = {
   /**
-   * Encodes an ArrayBuffer to a base64 string.
+   * Encodes an ArrayBuffer or view to a base64 string.
    * Optionally converts the output to URL-safe base64 format.
+   * Uses the native `Uint8Array.prototype.toBase64` when available, otherwise a table-driven
+   * encoder that works through the input in chunks, so buffers of any size can be encoded.
    *
    * @param buf - The buffer to encode
    * @param urlSafe - Whether to use URL-safe base64 encoding
@@ -47,36 +129,322 @@ export const base64 = {
    * base64.encode(new Uint8Array([1, 2, 3]).buffer) // returns "AQID"
    * base64.encode(new Uint8Array([1, 2, 3]).buffer, true) // returns "AQID" (URL-safe)
    */
-  encode(buf: ArrayBuffer, urlSafe=false) {
-    const bytes = new Uint8Array(buf)
-    const byteStr = String.fromCharCode(...bytes)
-    const base64 = btoa(byteStr)
-    return urlSafe ? makeUrlSafe(base64) : base64
+  encode(buf: ArrayBuffer | ArrayBufferView, urlSafe=false) {
+    const bytes = toBytes(buf)
+    const toBase64 = (Uint8Array.prototype as NativeBase64).toBase64
+
+    if (toBase64) {
+      return toBase64.call(bytes, { alphabet: urlSafe ? "base64url" : "base64", omitPadding: urlSafe })
+    }
+
+    const codes = urlSafe ? b64UrlCodes : b64Codes
+    const parts: string[] = []
+
+    for (let i = 0; i < bytes.length; i += B64_CHUNK) {
+      parts.push(asciiDec.decode(encodeBase64(bytes.subarray(i, i + B64_CHUNK), codes, !urlSafe)))
+    }
+
+    return parts.join("")
   },
 
   /**
    * Decodes a base64 string to a Uint8Array.
    * Handles both standard and URL-safe base64 formats.
+   * Uses the native `Uint8Array.fromBase64` when available, otherwise a table-driven decoder
+   * that accepts the same input as `atob`.
+   *
+   * In strict mode standard base64 must be padded, URL-safe base64 may be padded or not,
+   * and the unused bits of the final group must be zero.
    *
    * @param base64 - The base64 string to decode
    * @param urlSafe - Whether the input is URL-safe base64
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
    * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
    * @example
    * base64.decode("AQID") // returns Uint8Array([1, 2, 3])
    * base64.decode("AQID", true) // returns Uint8Array([1, 2, 3])
+   * base64.decode("AQ\r\nID", false, "lenient") // returns Uint8Array([1, 2, 3])
    */
-  decode(base64: string, urlSafe=false) {
-    base64 = urlSafe ? makeUrlUnsafe(base64) : base64
+  decode(base64: string, urlSafe=false, mode?: DecodeMode) {
+    if (mode) {
+      endBase64(scanBase64(base64, urlSafe, mode), urlSafe, mode, base64.length)
+      base64 = mode === "lenient" ? base64.replace(WHITESPACE, "") : base64
+    }
 
-    const byteStr = atob(base64)
-    const buffer = new Uint8Array(byteStr.length)
+    base64 = urlSafe ? makeUrlUnsafe(base64) : base64
+    const fromBase64 = (Uint8Array as NativeBase64Constructor).fromBase64
 
-    for (let i = 0; i < byteStr.length; i++) {
-      buffer[i] = byteStr.charCodeAt(i)
+    if (fromBase64) {
+      return fromBase64(base64)
     }
 
-    return buffer
+    return decodeBase64(base64)
   },
+
+  /**
+   * Creates a TransformStream that encodes a stream of bytes to base64 text.
+   * Bytes are encoded in groups of 3, any remainder is carried over to the next chunk,
+   * and the final group is encoded (and padded) on flush.
+   *
+   * @param urlSafe - Whether to use URL-safe base64 encoding
+   * @returns A TransformStream of bytes to base64 strings
+   * @example
+   * blob.stream().pipeThrough(base64.encoderStream())
+   */
+  encoderStream(urlSafe=false) {
+    let rest = new Uint8Array(0)
+
+    return new TransformStream<ArrayBuffer | ArrayBufferView, string>({
+      transform(chunk, controller) {
+        const bytes = joinBytes(rest, toBytes(chunk))
+        const end = bytes.length - (bytes.length % 3)
+        rest = bytes.slice(end)
+        end && controller.enqueue(base64.encode(bytes.subarray(0, end), urlSafe))
+      },
+      flush(controller) {
+        rest.length && controller.enqueue(base64.encode(rest, urlSafe))
+      },
+    })
+  },
+
+  /**
+   * Creates a TransformStream that decodes a stream of base64 text to bytes.
+   * Whitespace is dropped (as `atob` does), characters are decoded in groups of 4, any remainder
+   * is carried over to the next chunk, and the final (possibly unpadded) group is decoded on flush.
+   *
+   * With `"auto"`, either alphabet is accepted, and a mode holds the stream to the first one seen.
+   *
+   * @param urlSafe - Whether the input is URL-safe base64, or `"auto"` to tell from the input
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A TransformStream of base64 strings to Uint8Arrays
+   * @example
+   * (await fetch(url)).body.pipeThrough(new TextDecoderStream()).pipeThrough(base64.decoderStream())
+   */
+  decoderStream(urlSafe: boolean | "auto" = false, mode?: DecodeMode) {
+    let rest = ""
+    let offset = 0
+    let scan: Base64Scan | undefined
+
+    return new TransformStream<string, Uint8Array>({
+      transform(chunk, controller) {
+        scan = mode && scanBase64(chunk, urlSafe, mode, offset, scan)
+        offset += chunk.length
+
+        const text = rest + chunk.replace(WHITESPACE, "")
+        const end = text.length - (text.length % 4)
+        rest = text.slice(end)
+        // URL-safe decoding also takes '+' and '/', so it covers both alphabets
+        end && controller.enqueue(base64.decode(text.slice(0, end), urlSafe !== false))
+      },
+      flush(controller) {
+        mode && endBase64(scan ?? scanBase64("", urlSafe, mode), urlSafe, mode, offset)
+        rest && controller.enqueue(base64.decode(rest, urlSafe !== false))
+      },
+    })
+  },
+}
+
+interface NativeBase64 {
+  toBase64?(options?: { alphabet?: "base64" | "base64url", omitPadding?: boolean }): string
+}
+
+interface NativeBase64Constructor {
+  fromBase64?(base64: string, options?: { alphabet?: "base64" | "base64url" }): Uint8Array
+}
+
+const B64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+const B64_URL = B64.slice(0, 62) + "-_"
+// Bytes encoded per chunk, a multiple of 3 so only the last chunk is padded.
+const B64_CHUNK = 3 * 0x10000
+
+const b64Codes = Uint8Array.from(B64, (c) => c.charCodeAt(0))
+const b64UrlCodes = Uint8Array.from(B64_URL, (c) => c.charCodeAt(0))
+const b64Values = new Int8Array(128).fill(-1)
+const b64UrlValues = new Int8Array(128).fill(-1)
+const b64AnyValues = new Int8Array(128).fill(-1)
+const hexValues = new Int8Array(128).fill(-1)
+const asciiDec = new TextDecoder()
+
+for (let i = 0; i < B64.length; i++) {
+  b64Values[B64.charCodeAt(i)] = i
+  b64UrlValues[B64_URL.charCodeAt(i)] = i
+  b64AnyValues[B64.charCodeAt(i)] = b64AnyValues[B64_URL.charCodeAt(i)] = i
+}
+
+for (let i = 0; i < 16; i++) {
+  hexValues[i.toString(16).charCodeAt(0)] = i
+  hexValues[i.toString(16).toUpperCase().charCodeAt(0)] = i
+}
+
+// ASCII whitespace, as skipped by `atob`
+const WHITESPACE = /[\t\n\f\r ]+/g
+
+function isWhitespace(c: number) {
+  return c === 32 || c === 9 || c === 10 || c === 12 || c === 13
+}
+
+function fail(encoding: string, reason: string, offset: number): never {
+  throw new DecodeError(encoding, reason, offset)
+}
+
+function scanHex(hex: string, mode: DecodeMode, offset = 0) {
+  for (let i = 0; i < hex.length; i++) {
+    const c = hex.charCodeAt(i)
+
+    if (!(c < 128 && hexValues[c] >= 0) && !(mode === "lenient" && isWhitespace(c))) {
+      fail("hex", "Invalid character", offset + i)
+    }
+  }
+}
+
+// Running state of a base64 validation, so it can be carried across stream chunks.
+interface Base64Scan {
+  count: number // Alphabet characters seen
+  pads: number // Padding characters seen
+  padAt: number // Offset of the first padding character
+  last: number // Offset of the last alphabet character
+  lastValue: number // Value of the last alphabet character
+  urlSafe?: boolean // The alphabet seen, when telling it from the input
+}
+
+function scanBase64(base64: string, urlSafe: boolean | "auto", mode: DecodeMode, offset = 0, scan?: Base64Scan) {
+  const values = urlSafe === "auto" ? b64AnyValues : urlSafe ? b64UrlValues : b64Values
+  scan ??= { count: 0, pads: 0, padAt: -1, last: -1, lastValue: 0 }
+
+  for (let i = 0; i < base64.length; i++) {
+    const c = base64.charCodeAt(i)
+    const v = c < 128 ? values[c] : -1
+
+    if (v >= 0) {
+      scan.pads && fail("base64", "Unexpected character after padding", offset + i)
+
+      if (v >= 62 && urlSafe === "auto") {
+        const safe = c === 45 || c === 95 // "-" or "_"
+        scan.urlSafe === !safe && fail("base64", "Invalid character", offset + i)
+        scan.urlSafe = safe
+      }
+
+      scan.count++
+      scan.last = offset + i
+      scan.lastValue = v
+    } else if (c === 61) { // "="
+      scan.pads === 0 && (scan.padAt = offset + i)
+      scan.pads++
+    } else if (!(mode === "lenient" && isWhitespace(c))) {
+      fail("base64", "Invalid character", offset + i)
+    }
+  }
+
+  return scan
+}
+
+function endBase64(scan: Base64Scan, urlSafe: boolean | "auto", mode: DecodeMode, length: number) {
+  const rem = scan.count % 4
+  // Input without '+' or '/' reads as URL-safe, as with `isUrlSafe`
+  urlSafe = urlSafe === "auto" ? scan.urlSafe ?? true : urlSafe
+
+  if (rem === 1) {
+    fail("base64", "Truncated input", length)
+  }
+
+  if (scan.pads && (scan.pads > 2 || (scan.count + scan.pads) % 4)) {
+    fail("base64", "Invalid padding", scan.padAt)
+  }
+
+  if (mode === "strict") {
+    rem && !scan.pads && !urlSafe && fail("base64", "Missing padding", length)
+    rem && scan.lastValue & (rem === 2 ? 15 : 3) && fail("base64", "Non-zero padding bits", scan.last)
+  }
+}
+
+function encodeBase64(bytes: Uint8Array, codes: Uint8Array, pad: boolean) {
+  const out = new Uint8Array(Math.ceil(bytes.length / 3) * 4)
+  let i = 0
+  let j = 0
+
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2]
+    out[j++] = codes[n >> 18]
+    out[j++] = codes[(n >> 12) & 63]
+    out[j++] = codes[(n >> 6) & 63]
+    out[j++] = codes[n & 63]
+  }
+
+  if (i < bytes.length) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8)
+    out[j++] = codes[n >> 18]
+    out[j++] = codes[(n >> 12) & 63]
+    i + 1 < bytes.length && (out[j++] = codes[(n >> 6) & 63])
+
+    while (pad && j % 4) {
+      out[j++] = 61 // "="
+    }
+  }
+
+  return out.subarray(0, j)
+}
+
+// Follows the `atob` forgiving-base64 rules: whitespace is dropped, padding is optional,
+// and a single dangling character or any character outside the alphabet is an error.
+function decodeBase64(base64: string) {
+  base64 = base64.replace(/[\t\n\f\r ]+/g, "")
+  let end = base64.length
+
+  if (end % 4 === 0) {
+    end -= base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0
+  }
+
+  if (end % 4 === 1) {
+    fail("base64", "Truncated input", base64.length)
+  }
+
+  const sextet = (i: number) => {
+    const c = base64.charCodeAt(i)
+    const v = c < 128 ? b64Values[c] : -1
+
+    if (v < 0) {
+      fail("base64", "Invalid character", i)
+    }
+
+    return v
+  }
+
+  const out = new Uint8Array((end * 3) >> 2)
+  let i = 0
+  let j = 0
+
+  for (; i + 3 < end; i += 4) {
+    const n = (sextet(i) << 18) | (sextet(i + 1) << 12) | (sextet(i + 2) << 6) | sextet(i + 3)
+    out[j++] = n >> 16
+    out[j++] = (n >> 8) & 255
+    out[j++] = n & 255
+  }
+
+  if (i < end) {
+    const n = (sextet(i) << 18) | (sextet(i + 1) << 12) | (i + 2 < end ? sextet(i + 2) << 6 : 0)
+    out[j++] = n >> 16
+    i + 2 < end && (out[j++] = (n >> 8) & 255)
+  }
+
+  return out
+}
+
+export function toBytes(chunk: ArrayBuffer | ArrayBufferView) {
+  return ArrayBuffer.isView(chunk)
+    ? new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+    : new Uint8Array(chunk)
+}
+
+function joinBytes(a: Uint8Array, b: Uint8Array) {
+  if (a.length === 0) {
+    return b
+  }
+
+  const joined = new Uint8Array(a.length + b.length)
+  joined.set(a, 0)
+  joined.set(b, a.length)
+  return joined
 }
 
 const unsafeToSafe: Record<string, string> = {
@@ -90,6 +458,20 @@ const safeToUnsafe: Record<string, string> = {
   "_": "/",
 }
 
+/**
+ * Tells whether a base64 string can be read as URL-safe base64,
+ * i.e. it has none of the standard alphabet's '+' and '/' characters.
+ *
+ * @param base64 - The base64 string to check
+ * @returns `true` if the string has no standard-only characters
+ * @example
+ * isUrlSafe("AQ-_") // returns true
+ * isUrlSafe("AQ+/") // returns false
+ */
+export function isUrlSafe(base64: string) {
+  return !/[+/]/.test(base64)
+}
+
 /**
  * Converts a standard base64 string to URL-safe format.
  * Replaces '+', '/', and '=' with '-', '_', and removes padding respectively.
@@ -105,7 +487,7 @@ export function makeUrlSafe(base64: string) {
 
 /**
  * Converts a URL-safe base64 string to standard format.
- * Replaces '-', '_' with '+', '/' and adds appropriate padding.
+ * Replaces '-', '_' with '+', '/' and adds appropriate padding, not counting whitespace.
  *
  * @param base64 - The URL-safe base64 string to convert
  * @returns A standard base64 string
@@ -113,7 +495,7 @@ export function makeUrlSafe(base64: string) {
  * makeUrlUnsafe("AQID-") // returns "AQID+"
  */
 export function makeUrlUnsafe(base64: string) {
-  const padding = "=".repeat((4 - (base64.length % 4)) % 4)
+  const padding = "=".repeat((4 - (base64.replace(WHITESPACE, "").length % 4)) % 4)
   return base64.replace(/[-_]/gm, (m) => safeToUnsafe[m]) + padding
 }
 
@@ -144,3 +526,352 @@ export const utf8 = {
     return utf8Dec.decode(buf)
   },
 }
+
+export type Base32Variant = "rfc4648" | "hex" | "crockford"
+
+export const base32 = {
+  /**
+   * Encodes an ArrayBuffer or view to a base32 string.
+   * The RFC 4648 variants are padded with '=' to a multiple of 8 characters, Crockford's is not.
+   *
+   * @param buf - The buffer to encode
+   * @param variant - The alphabet: RFC 4648 (`"rfc4648"`), RFC 4648 extended hex (`"hex"`) or Crockford's (`"crockford"`)
+   * @returns A base32 string representation of the buffer
+   * @example
+   * base32.encode(new Uint8Array([102, 111, 111])) // returns "MZXW6==="
+   * base32.encode(new Uint8Array([102, 111, 111]), "crockford") // returns "CSQPY"
+   */
+  encode(buf: ArrayBuffer | ArrayBufferView, variant: Base32Variant = "rfc4648") {
+    const bytes = toBytes(buf)
+    const alphabet = B32[variant]
+    let out = ""
+    let acc = 0
+    let bits = 0
+
+    for (let i = 0; i < bytes.length; i++) {
+      acc = ((acc << 8) | bytes[i]) & 0xfff
+      bits += 8
+
+      for (; bits >= 5; bits -= 5) {
+        out += alphabet[(acc >> (bits - 5)) & 31]
+      }
+    }
+
+    out += bits ? alphabet[(acc << (5 - bits)) & 31] : ""
+    return variant === "crockford" ? out : out.padEnd(Math.ceil(out.length / 8) * 8, "=")
+  },
+
+  /**
+   * Decodes a base32 string to a Uint8Array.
+   * Decoding is case-insensitive and padding is optional. Crockford's variant also ignores
+   * hyphens and reads 'I'/'L' as 1 and 'O' as 0.
+   * In strict mode the RFC 4648 variants must be padded and the unused bits of the final group must be zero.
+   *
+   * @param base32 - The base32 string to decode
+   * @param variant - The alphabet the string was encoded with
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * base32.decode("MZXW6===") // returns Uint8Array([102, 111, 111])
+   * base32.decode("mzxw 6", "rfc4648", "lenient") // returns Uint8Array([102, 111, 111])
+   */
+  decode(base32: string, variant: Base32Variant = "rfc4648", mode?: DecodeMode) {
+    const values = b32Values[variant]
+    const out = new Uint8Array(Math.floor((base32.length * 5) / 8))
+    let acc = 0
+    let bits = 0
+    let j = 0
+    let count = 0
+    let pads = 0
+    let padAt = -1
+    let last = -1
+
+    for (let i = 0; i < base32.length; i++) {
+      const c = base32.charCodeAt(i)
+      const v = c < 128 ? values[c] : -1
+
+      if (v >= 0) {
+        pads && fail("base32", "Unexpected character after padding", i)
+        acc = ((acc << 5) | v) & 0xfff
+        bits += 5
+        count++
+        last = i
+
+        if (bits >= 8) {
+          bits -= 8
+          out[j++] = acc >> bits
+        }
+      } else if (c === 61 && variant !== "crockford") { // "="
+        pads === 0 && (padAt = i)
+        pads++
+      } else if (!(c === 45 && variant === "crockford") && !(mode === "lenient" && isWhitespace(c))) { // "-"
+        fail("base32", "Invalid character", i)
+      }
+    }
+
+    const rem = count % 8
+    const missing = (8 - rem) % 8
+
+    if (rem === 1 || rem === 3 || rem === 6) {
+      fail("base32", "Truncated input", base32.length)
+    }
+
+    pads && pads !== missing && fail("base32", "Invalid padding", padAt)
+
+    if (mode === "strict") {
+      variant !== "crockford" && missing && !pads && fail("base32", "Missing padding", base32.length)
+      acc & ((1 << bits) - 1) && fail("base32", "Non-zero padding bits", last)
+    }
+
+    return out.subarray(0, j)
+  },
+}
+
+export const base58 = {
+  /**
+   * Encodes an ArrayBuffer or view to a base58 string using the Bitcoin alphabet.
+   * Leading zero bytes are encoded as leading '1's.
+   *
+   * @param buf - The buffer to encode
+   * @returns A base58 string representation of the buffer
+   * @example
+   * base58.encode(new Uint8Array([0, 0, 0, 40, 127, 180, 205])) // returns "111233QC4"
+   */
+  encode(buf: ArrayBuffer | ArrayBufferView) {
+    const bytes = toBytes(buf)
+    let zeros = 0
+
+    for (; zeros < bytes.length && bytes[zeros] === 0; zeros++) { }
+
+    // log(256) / log(58), rounded up
+    const size = Math.ceil(((bytes.length - zeros) * 138) / 100) + 1
+    const digits = new Uint8Array(size)
+    let length = 0
+
+    for (let i = zeros; i < bytes.length; i++) {
+      let carry = bytes[i]
+      let k = 0
+
+      for (let d = size - 1; (carry || k < length) && d >= 0; d--, k++) {
+        carry += digits[d] * 256
+        digits[d] = carry % 58
+        carry = Math.floor(carry / 58)
+      }
+
+      length = k
+    }
+
+    let out = "1".repeat(zeros)
+
+    for (let d = size - length; d < size; d++) {
+      out += B58[digits[d]]
+    }
+
+    return out
+  },
+
+  /**
+   * Decodes a base58 (Bitcoin alphabet) string to a Uint8Array.
+   * Leading '1's are decoded as leading zero bytes.
+   *
+   * @param base58 - The base58 string to decode
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input contains a character outside the alphabet
+   * @example
+   * base58.decode("111233QC4") // returns Uint8Array([0, 0, 0, 40, 127, 180, 205])
+   */
+  decode(base58: string, mode?: DecodeMode) {
+    // log(58) / log(256), rounded up
+    const size = Math.ceil((base58.length * 733) / 1000) + 1
+    const bytes = new Uint8Array(size)
+    let zeros = 0
+    let leading = true
+    let length = 0
+
+    for (let i = 0; i < base58.length; i++) {
+      const c = base58.charCodeAt(i)
+      let carry = c < 128 ? b58Values[c] : -1
+
+      if (mode === "lenient" && isWhitespace(c)) {
+        continue
+      }
+
+      carry < 0 && fail("base58", "Invalid character", i)
+
+      leading = leading && carry === 0
+      leading && zeros++
+      let k = 0
+
+      for (let b = size - 1; (carry || k < length) && b >= 0; b--, k++) {
+        carry += bytes[b] * 58
+        bytes[b] = carry & 255
+        carry >>= 8
+      }
+
+      length = k
+    }
+
+    const out = new Uint8Array(zeros + length)
+    out.set(bytes.subarray(size - length), zeros)
+    return out
+  },
+}
+
+export type Base85Variant = "ascii85" | "z85"
+
+export const base85 = {
+  /**
+   * Encodes an ArrayBuffer or view to a base85 string.
+   * Ascii85 encodes an all-zero group as 'z' and is written without the `<~`/`~>` delimiters.
+   * Z85 is specified for inputs that are a multiple of 4 bytes, other lengths are encoded
+   * with a shortened final group the same way as Ascii85.
+   *
+   * @param buf - The buffer to encode
+   * @param variant - The alphabet: Adobe Ascii85 (`"ascii85"`) or ZeroMQ Z85 (`"z85"`)
+   * @returns A base85 string representation of the buffer
+   * @example
+   * base85.encode(new Uint8Array([0x86, 0x4f, 0xd2, 0x6f, 0xb5, 0x59, 0xf7, 0x5b]), "z85") // returns "HelloWorld"
+   */
+  encode(buf: ArrayBuffer | ArrayBufferView, variant: Base85Variant = "ascii85") {
+    const bytes = toBytes(buf)
+    const alphabet = B85[variant]
+    let out = ""
+
+    for (let i = 0; i < bytes.length; i += 4) {
+      const n = Math.min(4, bytes.length - i)
+      let value = 0
+
+      for (let k = 0; k < 4; k++) {
+        value = value * 256 + (k < n ? bytes[i + k] : 0)
+      }
+
+      if (value === 0 && n === 4 && variant === "ascii85") {
+        out += "z"
+        continue
+      }
+
+      let group = ""
+
+      for (let k = 0; k < 5; k++, value = Math.floor(value / 85)) {
+        group = alphabet[value % 85] + group
+      }
+
+      out += group.slice(0, n + 1)
+    }
+
+    return out
+  },
+
+  /**
+   * Decodes a base85 string to a Uint8Array.
+   * Ascii85 input may be wrapped in `<~`/`~>` delimiters and always skips whitespace,
+   * as the format allows line breaks anywhere. In strict mode Z85 input must be a multiple of 5 characters.
+   *
+   * @param base85 - The base85 string to decode
+   * @param variant - The alphabet the string was encoded with
+   * @param mode - Validate the input strictly, or leniently skipping whitespace
+   * @returns A Uint8Array containing the decoded bytes
+   * @throws {DecodeError} If the input is invalid
+   * @example
+   * base85.decode("HelloWorld", "z85") // returns Uint8Array([0x86, 0x4f, 0xd2, 0x6f, 0xb5, 0x59, 0xf7, 0x5b])
+   */
+  decode(base85: string, variant: Base85Variant = "ascii85", mode?: DecodeMode) {
+    const values = b85Values[variant]
+    const ascii85 = variant === "ascii85"
+    let start = 0
+    let end = base85.length
+
+    if (ascii85 && base85.startsWith("<~")) {
+      start = 2
+      end = base85.endsWith("~>") ? end - 2 : fail("base85", "Missing end delimiter", end)
+    }
+
+    // Each 'z' stands for a whole group of 4 zero bytes
+    const zeros = ascii85 ? base85.split("z").length - 1 : 0
+    const out = new Uint8Array(Math.ceil((end - start) / 5) * 4 + zeros * 4)
+    const group = new Uint8Array(5)
+    let n = 0
+    let j = 0
+
+    const flush = (at: number) => {
+      let value = 0
+
+      for (let k = 0; k < 5; k++) {
+        value = value * 85 + (k < n ? group[k] : 84)
+      }
+
+      value > 0xffffffff && fail("base85", "Group overflow", at)
+
+      for (let k = 0; k < n - 1; k++) {
+        out[j++] = (value >>> (24 - k * 8)) & 255
+      }
+    }
+
+    for (let i = start; i < end; i++) {
+      const c = base85.charCodeAt(i)
+      const v = c < 128 ? values[c] : -1
+
+      if (v >= 0) {
+        group[n++] = v
+        n === 5 && (flush(i), n = 0)
+      } else if (ascii85 && c === 122 && n === 0) { // "z"
+        j += 4
+      } else if (!((ascii85 || mode === "lenient") && isWhitespace(c))) {
+        fail("base85", "Invalid character", i)
+      }
+    }
+
+    n === 1 && fail("base85", "Truncated input", end)
+    mode === "strict" && !ascii85 && n && fail("base85", "Truncated input", end)
+    n && flush(end)
+
+    return out.subarray(0, j)
+  },
+}
+
+const B32: Record<Base32Variant, string> = {
+  rfc4648: "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567",
+  hex: "0123456789ABCDEFGHIJKLMNOPQRSTUV",
+  crockford: "0123456789ABCDEFGHJKMNPQRSTVWXYZ",
+}
+
+const B58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz"
+
+const B85: Record<Base85Variant, string> = {
+  ascii85: Array.from({ length: 85 }, (_, i) => String.fromCharCode(33 + i)).join(""),
+  z85: "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#",
+}
+
+function valuesOf(alphabet: string, caseless = false) {
+  const values = new Int8Array(128).fill(-1)
+
+  for (let i = 0; i < alphabet.length; i++) {
+    values[alphabet.charCodeAt(i)] = i
+    caseless && (values[alphabet[i].toLowerCase().charCodeAt(0)] = i)
+  }
+
+  return values
+}
+
+const crockfordValues = valuesOf(B32.crockford, true)
+
+// Crockford's base32 reads the easily confused 'I' and 'L' as 1, and 'O' as 0
+for (const [c, v] of [["I", 1], ["L", 1], ["O", 0]] as const) {
+  crockfordValues[c.charCodeAt(0)] = v
+  crockfordValues[c.toLowerCase().charCodeAt(0)] = v
+}
+
+const b32Values: Record<Base32Variant, Int8Array> = {
+  rfc4648: valuesOf(B32.rfc4648, true),
+  hex: valuesOf(B32.hex, true),
+  crockford: crockfordValues,
+}
+
+const b58Values = valuesOf(B58)
+
+const b85Values: Record<Base85Variant, Int8Array> = {
+  ascii85: valuesOf(B85.ascii85),
+  z85: valuesOf(B85.z85),
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest"
+import { ResumableUpload } from "./upload"
+
+
+describe("ResumableUpload", () => {
+  const file = new Blob([new Uint8Array(25).map((_, i) => i)], { type: "application/octet-stream" })
+
+  it("should split the blob into chunks", () => {
+    const upload = new ResumableUpload(file, { chunkSize: 10 })
+
+    expect(upload.chunkCount).toBe(3)
+    expect(upload.chunk(2)).toMatchObject({ index: 2, start: 20, end: 25 })
+    expect(upload.chunk(2).blob.size).toBe(5)
+    expect(() => upload.chunk(3)).toThrow(RangeError)
+    expect(() => new ResumableUpload(file, { chunkSize: 0 })).toThrow(RangeError)
+  })
+
+  it("should track and merge completed ranges", () => {
+    const upload = new ResumableUpload(file, { chunkSize: 10 })
+
+    upload.markDone(0, 5).markDone(15, 20).markDone(5, 12)
+
+    expect(upload.completed).toEqual([[0, 12], [15, 20]])
+    expect(upload.uploaded).toBe(17)
+    expect(upload.progress).toBeCloseTo(17 / 25)
+    expect(upload.isChunkDone(0)).toBe(true)
+    expect(upload.isChunkDone(1)).toBe(false)
+    expect(upload.pendingChunks().map(c => c.index)).toEqual([1, 2])
+
+    upload.markDone(10, 100).markChunkDone(1)
+
+    expect(upload.completed).toEqual([[0, 25]])
+    expect(upload.isComplete).toBe(true)
+  })
+
+  it("should resume from saved ranges", () => {
+    const first = new ResumableUpload(file, { chunkSize: 10 })
+    first.markChunkDone(0).markChunkDone(2)
+
+    const resumed = new ResumableUpload(file, { chunkSize: 10, completed: first.completed })
+
+    expect(resumed.pendingChunks().map(c => c.index)).toEqual([1])
+  })
+
+  it("should compute per-chunk hex checksums", async () => {
+    const upload = new ResumableUpload(new Blob(["abc"]), { chunkSize: 2 })
+
+    expect(await upload.checksum(0)).toBe("fb8e20fc2e4c3f248c60c39bd652f3c1347298bb977b8b4d5903b85055620603")
+    expect(await new ResumableUpload(new Blob(["abc"]), { algorithm: "SHA-1" }).checksum(0)).toBe("a9993e364706816aba3e25717850c26c9cd0d89d")
+  })
+
+  it("should iterate the pending chunks with checksums", async () => {
+    const upload = new ResumableUpload(file, { chunkSize: 10 })
+    upload.markChunkDone(1)
+    const seen: number[] = []
+
+    for await (const chunk of upload) {
+      expect(chunk.checksum).toMatch(/^[0-9a-f]{64}$/)
+      seen.push(chunk.index)
+      upload.markChunkDone(chunk.index)
+    }
+
+    expect(seen).toEqual([0, 2])
+    expect(upload.isComplete).toBe(true)
+  })
+
+  it("should treat an empty blob as complete", () => {
+    const upload = new ResumableUpload(new Blob([]))
+
+    expect(upload.chunkCount).toBe(0)
+    expect(upload.progress).toBe(1)
+    expect(upload.isComplete).toBe(true)
+  })
+})
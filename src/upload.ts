@@ -0,0 +1,187 @@
+import { blob as $blob, DEFAULT_CHUNK_SIZE } from "./blob"
+import { $buffer } from "./buffer"
+import type { DigestAlgorithm } from "./hash"
+
+/**
+ * A range of bytes, from `start` up to but not including `end`.
+ */
+export type ByteRange = [start: number, end: number]
+
+export interface UploadChunk {
+  /** The position of the chunk, from 0 */
+  index: number
+  /** The offset of the first byte of the chunk */
+  start: number
+  /** The offset after the last byte of the chunk */
+  end: number
+  /** The chunk contents */
+  blob: Blob
+}
+
+export interface ChecksummedUploadChunk extends UploadChunk {
+  /** The hex digest of the chunk contents */
+  checksum: string
+}
+
+export interface ResumableUploadOptions {
+  /** The chunk size in bytes, defaults to 5 MiB */
+  chunkSize?: number
+  /** The algorithm for chunk checksums, defaults to SHA-256 */
+  algorithm?: DigestAlgorithm
+  /** Byte ranges already uploaded, e.g. saved from `completed` by an earlier session */
+  completed?: ByteRange[]
+}
+
+/**
+ * Tracks the progress of a chunked upload, so it can be resumed after a failure.
+ * Byte ranges are marked done as they are uploaded, and iterating the tracker
+ * yields the chunks still to upload along with their checksums.
+ *
+ * @example
+ * const upload = new ResumableUpload(file, { completed: loadSavedRanges() })
+ *
+ * for await (const chunk of upload) {
+ *   await put(chunk.blob, { range: [chunk.start, chunk.end], checksum: chunk.checksum })
+ *   upload.markChunkDone(chunk.index)
+ *   saveRanges(upload.completed)
+ * }
+ */
+export class ResumableUpload {
+  readonly chunkSize: number
+  readonly algorithm: DigestAlgorithm
+  private done: ByteRange[] = []
+
+  /**
+   * @param blob - The blob to upload
+   * @param options - The chunk size, checksum algorithm and ranges already uploaded
+   */
+  constructor(readonly blob: Blob, options: ResumableUploadOptions = {}) {
+    const { chunkSize = DEFAULT_CHUNK_SIZE, algorithm = "SHA-256", completed = [] } = options
+
+    if (!(Number.isInteger(chunkSize) && chunkSize > 0)) {
+      throw new RangeError(`Invalid chunk size: ${chunkSize}`)
+    }
+
+    this.chunkSize = chunkSize
+    this.algorithm = algorithm
+    completed.forEach(([start, end]) => this.markDone(start, end))
+  }
+
+  /** The number of chunks the blob is split into */
+  get chunkCount() {
+    return Math.ceil(this.blob.size / this.chunkSize)
+  }
+
+  /** The number of bytes marked done */
+  get uploaded() {
+    return this.done.reduce((sum, [start, end]) => sum + end - start, 0)
+  }
+
+  /** The fraction of bytes marked done, from 0 to 1 */
+  get progress() {
+    return this.blob.size === 0 ? 1 : this.uploaded / this.blob.size
+  }
+
+  /** Whether every byte has been marked done */
+  get isComplete() {
+    return this.uploaded === this.blob.size
+  }
+
+  /** The merged byte ranges marked done, in order */
+  get completed(): ByteRange[] {
+    return this.done.map(([start, end]) => [start, end])
+  }
+
+  /**
+   * Gets a chunk by index.
+   * @param index - The chunk index
+   * @throws {RangeError} If there is no chunk at the index
+   */
+  chunk(index: number): UploadChunk {
+    if (!(Number.isInteger(index) && index >= 0 && index < this.chunkCount)) {
+      throw new RangeError(`Invalid chunk index: ${index}`)
+    }
+
+    const start = index * this.chunkSize
+    const end = Math.min(start + this.chunkSize, this.blob.size)
+    return { index, start, end, blob: this.blob.slice(start, end, this.blob.type) }
+  }
+
+  /**
+   * Computes the hex digest of a chunk.
+   * @param index - The chunk index
+   * @returns A promise resolving to the checksum
+   */
+  async checksum(index: number) {
+    return $buffer.toHex(await $blob.digest(this.chunk(index).blob, this.algorithm))
+  }
+
+  /**
+   * Marks a byte range as uploaded, merging it with adjacent and overlapping ranges.
+   * The range is clamped to the blob.
+   * @param start - The offset of the first byte
+   * @param end - The offset after the last byte
+   */
+  markDone(start: number, end: number) {
+    start = Math.max(0, start)
+    end = Math.min(this.blob.size, end)
+
+    if (start >= end) {
+      return this
+    }
+
+    const merged: ByteRange[] = []
+
+    for (const range of this.done) {
+      if (range[1] < start || range[0] > end) {
+        merged.push(range)
+      } else {
+        start = Math.min(start, range[0])
+        end = Math.max(end, range[1])
+      }
+    }
+
+    merged.push([start, end])
+    this.done = merged.sort((a, b) => a[0] - b[0])
+    return this
+  }
+
+  /**
+   * Marks a chunk as uploaded.
+   * @param index - The chunk index
+   */
+  markChunkDone(index: number) {
+    const { start, end } = this.chunk(index)
+    return this.markDone(start, end)
+  }
+
+  /**
+   * Checks whether every byte of a chunk has been marked done.
+   * @param index - The chunk index
+   */
+  isChunkDone(index: number) {
+    const { start, end } = this.chunk(index)
+    return this.done.some(range => range[0] <= start && range[1] >= end)
+  }
+
+  /**
+   * Lists the chunks that are not fully marked done.
+   */
+  pendingChunks() {
+    return Array.from({ length: this.chunkCount }, (_, i) => i)
+      .filter(i => !this.isChunkDone(i))
+      .map(i => this.chunk(i))
+  }
+
+  /**
+   * Yields the chunks still to upload, each with its checksum.
+   * Chunks marked done while iterating are skipped.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<ChecksummedUploadChunk> {
+    for (let i = 0; i < this.chunkCount; i++) {
+      if (!this.isChunkDone(i)) {
+        yield { ...this.chunk(i), checksum: await this.checksum(i) }
+      }
+    }
+  }
+}